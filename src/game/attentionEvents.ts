@@ -0,0 +1,94 @@
+/** Срез состояния игры, по которому срабатывают события-правила */
+export interface AttentionEventState {
+  gameTime: number;
+  /** Доля свободного внимания (0.0 - 1.0) */
+  freeAttention: number;
+  /** Задач в активном пуле */
+  activeCount: number;
+  /** Задач в очередях (resumed + pending) */
+  queuedCount: number;
+}
+
+type AttentionEventTrigger =
+  /** Случайно: в среднем chancePerMinute срабатываний за минуту игрового времени */
+  | { type: 'random'; chancePerMinute: number }
+  /** По времени: каждые everyMs игрового времени */
+  | { type: 'interval'; everyMs: number }
+  /** По состоянию игры: проверяется каждый тик */
+  | { type: 'state'; check: (state: AttentionEventState) => boolean };
+
+/** Описание события внимания */
+export interface AttentionEventDefinition {
+  id: string;
+  /** crisis — отнимает внимание, blessing — добавляет */
+  kind: 'crisis' | 'blessing';
+  title: string;
+  description: string;
+  /** Доля лимита внимания, которую событие занимает (0.0 - 1.0) */
+  reserve?: number;
+  /** Прибавка к лимиту внимания (единицы внимания) */
+  boost?: number;
+  /** Длительность (ms игрового времени) */
+  durationMs: number;
+  /** Пауза после срабатывания, в течение которой событие не повторяется (ms игрового времени) */
+  cooldownMs: number;
+  trigger: AttentionEventTrigger;
+}
+
+/** Идущее событие — только данные: сохраняется в IndexedDB и уходит на main thread */
+export interface ActiveAttentionEvent
+  extends Pick<AttentionEventDefinition, 'id' | 'kind' | 'title' | 'description' | 'reserve' | 'boost'> {
+  /** Когда закончится (gameTime) */
+  endsAt: number;
+}
+
+/**
+ * События, временно меняющие лимит внимания.
+ * ВЗАИМОДЕЙСТВИЕ: Триггеры проверяет движок задач в saveWorker на каждом тике.
+ */
+export const ATTENTION_EVENTS = [
+  {
+    id: 'cave-in',
+    kind: 'crisis',
+    title: 'Обвал в шахте',
+    description: 'Четверть внимания уходит на разбор завала',
+    reserve: 0.25,
+    durationMs: 60 * 1000,
+    cooldownMs: 10 * 60 * 1000,
+    trigger: { type: 'random', chancePerMinute: 0.05 },
+  },
+  {
+    id: 'overwork',
+    kind: 'crisis',
+    title: 'Переутомление',
+    description: 'Длинная очередь при полностью занятом внимании: часть внимания недоступна',
+    reserve: 0.125,
+    durationMs: 45 * 1000,
+    cooldownMs: 5 * 60 * 1000,
+    trigger: { type: 'state', check: ({ freeAttention, queuedCount }) => freeAttention <= 0 && queuedCount >= 10 },
+  },
+  {
+    id: 'inspiration',
+    kind: 'blessing',
+    title: 'Вдохновение',
+    description: '+2 к лимиту внимания',
+    boost: 2,
+    durationMs: 60 * 1000,
+    cooldownMs: 0,
+    trigger: { type: 'interval', everyMs: 15 * 60 * 1000 },
+  },
+] as const satisfies AttentionEventDefinition[];
+
+/**
+ * Лимит внимания с учётом идущих событий.
+ * Формула: floor(limit × (1 - Σreserve) + Σboost), не меньше 0
+ */
+export function getEffectiveAttentionLimit(limit: number, events: ActiveAttentionEvent[]) {
+  let reserve = 0;
+  let boost = 0;
+  events.forEach(event => {
+    reserve += event.reserve ?? 0;
+    boost += event.boost ?? 0;
+  });
+  return Math.max(0, Math.floor(limit * Math.max(0, 1 - reserve) + boost));
+}
@@ -0,0 +1,74 @@
+/** Набор автотайлинга: 4 бита — стороны (16 кадров), blob — стороны и углы (47 кадров) */
+export type AutotileMode = '4bit' | 'blob';
+
+/** Биты маски 4bit — стороны */
+export const EDGE_BITS = { north: 1, east: 2, south: 4, west: 8 } as const;
+/** Биты маски blob — по часовой стрелке с севера */
+export const BLOB_BITS = {
+  north: 1,
+  northEast: 2,
+  east: 4,
+  southEast: 8,
+  south: 16,
+  southWest: 32,
+  west: 64,
+  northWest: 128,
+} as const;
+
+/** Соседи по сторонам: бит маски 4bit и смещение клетки */
+const EDGES = [
+  { bit: EDGE_BITS.north, dx: 0, dy: -1 },
+  { bit: EDGE_BITS.east, dx: 1, dy: 0 },
+  { bit: EDGE_BITS.south, dx: 0, dy: 1 },
+  { bit: EDGE_BITS.west, dx: -1, dy: 0 },
+] as const;
+
+/** Соседи blob: бит маски и смещение клетки */
+const BLOB_NEIGHBOURS = [
+  { bit: BLOB_BITS.north, dx: 0, dy: -1 },
+  { bit: BLOB_BITS.northEast, dx: 1, dy: -1 },
+  { bit: BLOB_BITS.east, dx: 1, dy: 0 },
+  { bit: BLOB_BITS.southEast, dx: 1, dy: 1 },
+  { bit: BLOB_BITS.south, dx: 0, dy: 1 },
+  { bit: BLOB_BITS.southWest, dx: -1, dy: 1 },
+  { bit: BLOB_BITS.west, dx: -1, dy: 0 },
+  { bit: BLOB_BITS.northWest, dx: -1, dy: -1 },
+] as const;
+
+/** Углы blob: угол учитывается, только если заняты обе его стороны */
+export const BLOB_CORNERS = [
+  { corner: BLOB_BITS.northEast, sides: BLOB_BITS.north | BLOB_BITS.east },
+  { corner: BLOB_BITS.southEast, sides: BLOB_BITS.east | BLOB_BITS.south },
+  { corner: BLOB_BITS.southWest, sides: BLOB_BITS.south | BLOB_BITS.west },
+  { corner: BLOB_BITS.northWest, sides: BLOB_BITS.west | BLOB_BITS.north },
+] as const;
+
+/** Убрать из маски blob углы, у которых свободна хотя бы одна сторона */
+const reduceBlobMask = (mask: number) =>
+  BLOB_CORNERS.reduce((result, { corner, sides }) => ((mask & sides) === sides ? result : result & ~corner), mask);
+
+/** Приведённые маски blob в порядке кадров: 47 различных из 256 */
+export const BLOB_MASKS = Array.from(new Set(Array.from({ length: 256 }, (_, mask) => reduceBlobMask(mask)))).sort(
+  (a, b) => a - b
+);
+const blobFrames = new Map(BLOB_MASKS.map((mask, frame) => [mask, frame]));
+
+export const AUTOTILE_FRAME_COUNT = { '4bit': EDGES.length ** 2, blob: BLOB_MASKS.length } as const;
+
+/** Маска кадра набора: для 4bit кадр и есть маска, для blob — приведённая маска (см. BLOB_MASKS) */
+export const getAutotileMask = (mode: AutotileMode, frame: number) => (mode === '4bit' ? frame : BLOB_MASKS[frame]);
+
+/**
+ * Кадр автотайла по соседям.
+ *
+ * АЛГОРИТМ:
+ * 1. 4bit — маска из сторон (N=1, E=2, S=4, W=8), кадр = маска
+ * 2. blob — маска из восьми соседей, углы без обеих сторон отбрасываются, кадр — номер маски в BLOB_MASKS
+ *
+ * @param connects - соединяется ли клетка с соседом по смещению (обычно — сосед того же типа)
+ */
+export function getAutotileFrame(mode: AutotileMode, connects: (dx: number, dy: number) => boolean) {
+  if (mode === '4bit') return EDGES.reduce((mask, { bit, dx, dy }) => (connects(dx, dy) ? mask | bit : mask), 0);
+  const mask = BLOB_NEIGHBOURS.reduce((result, { bit, dx, dy }) => (connects(dx, dy) ? result | bit : result), 0);
+  return blobFrames.get(reduceBlobMask(mask))!;
+}
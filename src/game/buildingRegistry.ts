@@ -0,0 +1,115 @@
+import { getTileDefinition } from '@/game/tileRegistry';
+import type { BuildingPlacement, BuildingRotation } from '@/types/building';
+import type { Cell } from '@/utils/buildShapes';
+
+/** Тип постройки */
+export interface BuildingDefinition {
+  type: string;
+  name: string;
+  description: string;
+  /** Размер футпринта в клетках без поворота */
+  size: { width: number; height: number };
+  /** Цвет спрайта (текстура генерируется в PreloadScene) */
+  color: number;
+  /** Цена внимания задачи постройки */
+  cost: number;
+  /** Длительность задачи постройки (ms игрового времени) */
+  duration: number;
+}
+
+/**
+ * Реестр типов построек.
+ *
+ * ЗАЧЕМ: Постройка занимает несколько клеток — она не помещается в тайл уровня (одна клетка — один TileIndexes).
+ * Постройки — сущности saveWorker поверх карты, спрайты — над слоями тайлмапа.
+ *
+ * ВЗАИМОДЕЙСТВИЕ: Правила размещения (getPlacementError) общие для предпросмотра на main thread и saveWorker.
+ */
+export const BUILDING_DEFINITIONS = [
+  {
+    type: 'room',
+    name: 'Комната',
+    description: 'Жилое помещение для обитателей подземелья',
+    size: { width: 3, height: 3 },
+    color: 0x8a6e4b,
+    cost: 1,
+    duration: 45 * 1000,
+  },
+  {
+    type: 'workshop',
+    name: 'Мастерская',
+    description: 'Место для изготовления инструментов и деталей',
+    size: { width: 3, height: 2 },
+    color: 0xb0602a,
+    cost: 2,
+    duration: 60 * 1000,
+  },
+  {
+    type: 'storage',
+    name: 'Хранилище',
+    description: 'Склад добытых ресурсов',
+    size: { width: 2, height: 2 },
+    color: 0x4d6fa0,
+    cost: 1,
+    duration: 30 * 1000,
+  },
+] as const satisfies BuildingDefinition[];
+
+export type BuildingType = (typeof BUILDING_DEFINITIONS)[number]['type'];
+
+const definitionsByType = new Map<string, BuildingDefinition>(
+  BUILDING_DEFINITIONS.map(definition => [definition.type, definition])
+);
+
+export const getBuildingDefinition = (type: string) => definitionsByType.get(type);
+
+export const isBuildingType = (value: unknown): value is BuildingType =>
+  typeof value === 'string' && definitionsByType.has(value);
+
+export const isBuildingRotation = (value: unknown): value is BuildingRotation =>
+  value === 0 || value === 1 || value === 2 || value === 3;
+
+/** Ключ текстуры спрайта постройки */
+export const getBuildingTextureKey = (type: BuildingType) => `building:${type}`;
+
+/** Размер футпринта с учётом поворота: нечётный поворот меняет ширину и высоту местами */
+export function getFootprintSize({ type, rotation }: Pick<BuildingPlacement, 'type' | 'rotation'>) {
+  const { width, height } = getBuildingDefinition(type)?.size ?? { width: 1, height: 1 };
+  return rotation % 2 ? { width: height, height: width } : { width, height };
+}
+
+/** Клетки футпринта постройки */
+export function getFootprint(placement: BuildingPlacement): Cell[] {
+  const { width, height } = getFootprintSize(placement);
+  return Array.from({ length: width * height }, (_, i) => ({
+    X: placement.X + (i % width),
+    Y: placement.Y + Math.floor(i / width),
+  }));
+}
+
+export type BuildingPlacementError = { type: 'unknown_type' } | { type: 'not_floor' } | { type: 'overlap' };
+
+/**
+ * Проверить размещение постройки.
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Каждая клетка футпринта — тайл, на котором можно строить (buildable в реестре тайлов: пол) → иначе not_floor
+ * - Клетка уже занята другой постройкой → overlap
+ *
+ * @param getTileIndex - индекс тайла клетки (null — клетка неизвестна, строить нельзя)
+ */
+export function getPlacementError(
+  placement: BuildingPlacement,
+  { getTileIndex, isOccupied }: { getTileIndex: (cell: Cell) => number | null; isOccupied: (cell: Cell) => boolean }
+): BuildingPlacementError | undefined {
+  if (!getBuildingDefinition(placement.type)) return { type: 'unknown_type' };
+  const footprint = getFootprint(placement);
+  if (footprint.some(cell => isOccupied(cell))) return { type: 'overlap' };
+  if (
+    footprint.some(cell => {
+      const index = getTileIndex(cell);
+      return index === null || !getTileDefinition(index)?.buildable;
+    })
+  )
+    return { type: 'not_floor' };
+}
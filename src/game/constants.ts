@@ -6,14 +6,78 @@ export const TILE_MARGIN = 2;
 
 export const TILE_TEXTURE_KEY = 'tiles';
 
-export const TILE_KEYS = {
-  0: 'grass0',
-  1: 'grass1',
+/**
+ * Лестницы: stairsDown на уровне N связана с stairsUp на уровне N + 1 в той же клетке.
+ * Отдельный тайлсет (gid с firstIndex), текстура генерируется в PreloadScene.
+ */
+export const STAIRS_TEXTURE_KEY = 'stairs';
+export const STAIRS_CONFIG = {
+  /** gid первого тайла лестниц (stairsDown) */
+  firstIndex: 10,
+  colors: { background: 0x2b2622, steps: 0xa89a86 },
+  /** Ступеней на тайле */
+  steps: 4,
+} as const;
+
+/**
+ * Автотайлы — стены и полы: кадр тайла выбирается по соседям (src/game/autotile.ts).
+ * Отдельные тайлсеты: первый gid — индекс тайла в уровне, кадры идут подряд за ним.
+ * Текстуры генерируются в PreloadScene.
+ */
+export const WALL_TEXTURE_KEY = 'walls';
+export const FLOOR_TEXTURE_KEY = 'floors';
+export const AUTOTILE_CONFIG = {
+  /** Стена — blob (47 кадров): кромка со свободных сторон и во внутренних углах */
+  wall: { firstIndex: 20, colors: { fill: 0x6e6259, rim: 0x3b332d }, rimWidth: 12 },
+  /** Пол — 4bit (16 кадров): бордюр со свободных сторон */
+  floor: { firstIndex: 70, colors: { fill: 0xa38d6d, border: 0x7d6a50 }, borderWidth: 4 },
+} as const;
+
+/** Уровни подземелья: индекс уровня — его глубина (0 — поверхность) */
+export const LEVEL_CONFIG = {
+  /** Сторона стартовой площадки нового уровня (в тайлах, вокруг клетки 0, 0) */
+  startAreaSize: 5,
+  surfaceName: 'Поверхность',
+} as const;
+
+/**
+ * Природный ландшафт незастроенных клеток.
+ * Индексы — отдельный тайлсет (gid с TERRAIN_CONFIG.firstIndex), не пересекаются с тайлами игрока.
+ */
+export const TERRAIN_TEXTURE_KEY = 'terrain';
+
+export const TERRAIN_KEYS = {
+  100: 'rock',
+  101: 'soil',
+  102: 'water',
+  103: 'ore',
 } as const satisfies { [k: number]: string };
-export const TILE_INDEX = {
-  grass0: 0,
-  grass1: 1,
-} as const satisfies ReverseMap<typeof TILE_KEYS>;
+export const TERRAIN_INDEX = {
+  rock: 100,
+  soil: 101,
+  water: 102,
+  ore: 103,
+} as const satisfies ReverseMap<typeof TERRAIN_KEYS>;
+
+/**
+ * Генерация ландшафта из сида мира (perlinWorker).
+ * Высота — 2D шум: ниже waterLevel вода, выше rockLevel скала, между ними земля.
+ * Руда — участки скалы, где 3D шум на срезе oreSlice выше oreLevel.
+ */
+export const TERRAIN_CONFIG = {
+  /** gid первого тайла ландшафта */
+  firstIndex: 100,
+  /** Цвета тайлов ландшафта (текстура генерируется в PreloadScene) */
+  colors: { rock: 0x5c5a57, soil: 0x6b4f35, water: 0x2e5c8a, ore: 0xb8902e },
+  /** Настройки шума для perlinWorker.init */
+  noise: { octaves: 4, persistence: 0.5, lacunarity: 2, scale: 24 },
+  waterLevel: -0.35,
+  rockLevel: 0.2,
+  oreLevel: 0.45,
+  oreSlice: 0,
+  /** Сдвиг координат шума на каждый уровень глубины: у каждого уровня свой ландшафт */
+  levelShift: 4096,
+} as const;
 
 export const GRID_CONFIG = {
   color: 0x333333,
@@ -33,6 +97,116 @@ export const MOVEMENT_CONFIG = {
 
 export const SAVE_CONFIG = {
   autoSaveInterval: 30000,
+  /** Сторона чанка уровня в клетках: уровень хранится и грузится чанками chunkSize × chunkSize */
+  chunkSize: 32,
+} as const;
+
+/**
+ * Игровые часы движка задач (saveWorker): единый источник времени для задач и геймплейных таймеров Phaser.
+ * Стриминг тайлмапа и камера — по реальному времени (работают и на паузе).
+ */
+export const GAME_CLOCK_CONFIG = {
+  /** Период тика движка задач (ms реального времени) */
+  tickInterval: 100,
+  /** Доступные множители скорости */
+  timeScales: [1, 2, 4] as const,
+} as const;
+
+/** Догоняющая симуляция при открытии сохранения */
+export const OFFLINE_PROGRESS_CONFIG = {
+  /** Максимум симулируемого времени отсутствия (ms) */
+  maxCatchUpMs: 8 * 60 * 60 * 1000,
+} as const;
+
+/** Правила заполнения активного пула (общие для движка задач и прогноза) */
+export const TASK_POOL_CONFIG = {
+  /** Минимальная цена задачи: свободного внимания меньше — заполнять пул нечем */
+  minimalCost: 1,
+  /** Задержка жадного прохода (ms игрового времени) */
+  greedyPassDelay: 30000,
+} as const;
+
+/** Ручные приоритеты задач в очередях (TaskSaved.priority, по умолчанию 0) */
+export const TASK_PRIORITY_CONFIG = {
+  min: -3,
+  max: 3,
+} as const;
+
+/**
+ * Скорость выполнения задач.
+ * rate = speedModifier типа × (1 + freeAttentionBonus × freeAttention)
+ */
+export const TASK_SPEED_CONFIG = {
+  /** Прибавка к скорости при 100% свободного внимания */
+  freeAttentionBonus: 0.5,
+} as const;
+
+/**
+ * Отмена задач.
+ * Возврат — доля вложенной работы (elapsedMs), которая остаётся на цели задачи (см. cancelPolicy в taskRegistry).
+ */
+export const TASK_CANCEL_CONFIG = {
+  /** Доля работы, возвращаемая при refund: 'partial' */
+  partialRefund: 0.5,
+  /** Спрашивать подтверждение, если задача выполнена на эту долю или больше */
+  confirmProgress: 0.25,
+  /** Спрашивать подтверждение, если цена внимания задачи не меньше этой */
+  confirmCost: 3,
+} as const;
+
+/** Параметры задачи захвата тайла (cost и duration независимы) */
+export const CAPTURE_CONFIG = {
+  cost: 1,
+  duration: 15000,
+} as const;
+
+/**
+ * Инструменты строительства перетаскиванием (кисть, линия, прямоугольник, заливка).
+ * Клетки штриха захватываются задачами captureArea: duration = CAPTURE_CONFIG.duration × клеток.
+ * Штрих длиннее jobSegmentCells — задание из нескольких таких задач, по очереди.
+ */
+export const BUILD_TOOLS_CONFIG = {
+  /** Максимум клеток в одном штрихе (заливка дальше не растёт) */
+  maxCells: 400,
+  /** Максимум клеток в одной задаче задания-штриха */
+  jobSegmentCells: 16,
+  /** Призрачный предпросмотр: цвета годных и негодных клеток */
+  preview: { validColor: 0x4ade80, invalidColor: 0xf87171, alpha: 0.35 },
+} as const;
+
+/**
+ * История правок карты (Ctrl+Z / Ctrl+Shift+Z).
+ * Хранится в saveWorker и IndexedDB; старые правки вытесняются.
+ */
+export const EDIT_HISTORY_CONFIG = {
+  /** Максимум правок в стеке отмены (и в стеке повтора) */
+  maxCommands: 100,
+} as const;
+
+/**
+ * Постройки (комната, мастерская, хранилище) — спрайты над слоями тайлмапа.
+ * Типы построек — в buildingRegistry.
+ */
+export const BUILDING_CONFIG = {
+  /** Глубина спрайтов: над слоями тайлмапа, под предпросмотром инструментов */
+  depth: 5,
+  /** Рамка и внутренняя панель текстуры постройки */
+  texture: { outlineWidth: 4, inset: 12, doorWidth: 16 },
+  /** Рамка выбранной постройки */
+  selection: { color: 0xfacc15, width: 4 },
+  /** Призрак размещения: цвета по BUILD_TOOLS_CONFIG.preview */
+  ghostAlpha: 0.6,
+} as const;
+
+/**
+ * Комнаты — замкнутые стенами области пола.
+ * Находятся в saveWorker после каждой правки карты; оверлей показывает комнату под курсором.
+ */
+export const ROOM_CONFIG = {
+  /** Область пола больше — открытое пространство, не комната (и предел заливки) */
+  maxArea: 1024,
+  /** Оверлей: глубина (над постройками), цвет границы и подписи */
+  overlay: { depth: 7, color: 0x38bdf8, lineWidth: 4, fillAlpha: 0.15, fontSize: 20 },
 } as const;
 
 /**
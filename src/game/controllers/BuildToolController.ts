@@ -0,0 +1,175 @@
+import type { GameObjects, Scene } from 'phaser';
+import { expectNever } from 'ts-expect';
+
+import { BUILD_TOOLS_CONFIG, TILE_SIZE } from '@/game/constants';
+import type { TilemapController } from '@/game/controllers/TilemapController';
+import { TILE_INDEX } from '@/game/tileRegistry';
+import { useBuildingStore } from '@/store/buildingStore';
+import { useCaptureStore } from '@/store/captureStore';
+import { useLevelStore } from '@/store/levelStore';
+import { useToastStore } from '@/store/toastStore';
+import { type BuildTool, useToolbarStore } from '@/store/toolbarStore';
+import { type Cell, cellId, getFloodFillCells, getLineCells, getRectCells } from '@/utils/buildShapes';
+import { getSaveWorker } from '@/workers/saveWorkerProxy';
+
+/**
+ * Клетка штриха после проверки: valid — будет захвачена, skip — тайл уже такой (не рисуется),
+ * depth — шаг связности с уровнем (см. saveWorker.getBatchConnectivity)
+ */
+type EvaluatedCell = { cell: Cell; valid: boolean; skip: boolean; depth: number };
+
+/**
+ * Инструменты строительства перетаскиванием: штрих, призрачный предпросмотр и захват.
+ *
+ * ЗАЧЕМ: Комнату или коридор строят одним движением, а не кликом по каждой клетке.
+ *
+ * АЛГОРИТМ:
+ * 1. start (ЛКМ нажата) — начало штриха; move — клетки штриха по инструменту (кисть копит пройденные клетки)
+ * 2. Предпросмотр: годные клетки — зелёные, негодные — красные
+ * 3. finish (ЛКМ отпущена) — годные клетки по порядку связности уходят одним пакетом в captureStore.captureArea
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Клетка негодна: лестница, под постройкой, уже захватывается, не связана с уровнем (связность — пакетом, saveWorker.getBatchConnectivity)
+ * - Клетка с тем же тайлом пропускается, но связность через неё есть — она уже часть уровня
+ * - Лестница ставится только одиночным кликом; штрих больше maxCells целиком негоден
+ * - Ответы воркера приходят асинхронно — рисуется только ответ на последний запрос (evaluateVersion)
+ */
+export class BuildToolController {
+  private readonly tilemapController: TilemapController;
+  private readonly preview: GameObjects.Graphics;
+  private stroke: { tool: BuildTool; start: Cell; last: Cell; brushCells: Map<string, Cell> } | null = null;
+  private evaluateVersion = 0;
+
+  constructor({ scene, tilemapController }: { scene: Scene; tilemapController: TilemapController }) {
+    this.tilemapController = tilemapController;
+    this.preview = scene.add.graphics().setDepth(10);
+  }
+
+  get isActive() {
+    return this.stroke !== null;
+  }
+
+  start(cell: Cell) {
+    this.stroke = {
+      tool: useToolbarStore().activeTool,
+      start: cell,
+      last: cell,
+      brushCells: new Map([[cellId(cell), cell]]),
+    };
+    void this.updatePreview();
+  }
+
+  move(cell: Cell) {
+    const { stroke } = this;
+    if (!stroke || cellId(cell) === cellId(stroke.last)) return;
+    if (stroke.tool === 'brush')
+      getLineCells(stroke.last, cell).forEach(brushCell => stroke.brushCells.set(cellId(brushCell), brushCell));
+    stroke.last = cell;
+    void this.updatePreview();
+  }
+
+  /** Отпустить штрих: захватить годные клетки */
+  async finish() {
+    const cells = this.getStrokeCells();
+    this.cancel();
+    if (!cells.length) return;
+    const levelIndex = useLevelStore().currentLevelIndex;
+    const targetIndex = TILE_INDEX[useToolbarStore().activeTile];
+    const tiles = (await this.evaluate(cells))
+      .filter(({ valid, skip }) => valid && !skip)
+      .sort((a, b) => a.depth - b.depth)
+      .map(({ cell }) => ({ ...cell, targetIndex }));
+    if (!tiles.length) return;
+
+    // Тайлы запишутся только после завершения задачи захвата
+    void useCaptureStore()
+      .captureArea({ levelIndex, tiles })
+      .mapErr(error => {
+        switch (error.type) {
+          case 'nothing_to_capture':
+            return useToastStore().show({ icon: 'warning', title: 'Клетки уже захватываются' });
+          case 'unknown_type':
+          case 'invalid_payload':
+          case 'duplicate_id':
+          case 'unknown_prerequisite':
+          case 'dependency_cycle':
+          case 'invalid_recurrence':
+            return console.error('[BuildToolController] capture task rejected:', error);
+          default:
+            expectNever(error);
+        }
+      });
+  }
+
+  /** Бросить штрих без захвата (Escape) */
+  cancel() {
+    this.stroke = null;
+    this.evaluateVersion++;
+    this.preview.clear();
+  }
+
+  destroy() {
+    this.cancel();
+    this.preview.destroy();
+  }
+
+  private getStrokeCells(): Cell[] {
+    const { stroke } = this;
+    if (!stroke) return [];
+    switch (stroke.tool) {
+      case 'brush':
+        return Array.from(stroke.brushCells.values());
+      case 'line':
+        return getLineCells(stroke.start, stroke.last);
+      case 'rect':
+        return getRectCells(stroke.start, stroke.last, false);
+      case 'fillRect':
+        return getRectCells(stroke.start, stroke.last, true);
+      case 'fill':
+        return getFloodFillCells(stroke.last, ({ X, Y }) => this.tilemapController.getTileIndex(X, Y));
+      default:
+        return expectNever(stroke.tool);
+    }
+  }
+
+  private async evaluate(cells: Cell[]): Promise<EvaluatedCell[]> {
+    const targetIndex = TILE_INDEX[useToolbarStore().activeTile];
+    const isStairsStroke = targetIndex === TILE_INDEX.stairsDown && cells.length > 1;
+    if (cells.length > BUILD_TOOLS_CONFIG.maxCells || isStairsStroke)
+      return cells.map(cell => ({ cell, valid: false, skip: false, depth: -1 }));
+
+    const levelIndex = useLevelStore().currentLevelIndex;
+    const captureStore = useCaptureStore();
+    const buildingStore = useBuildingStore();
+    const depths = await getSaveWorker().getBatchConnectivity({ levelIndex, tiles: cells });
+    return cells.map((cell, i) => {
+      const index = this.tilemapController.getTileIndex(cell.X, cell.Y);
+      const isStairs = index === TILE_INDEX.stairsDown || index === TILE_INDEX.stairsUp;
+      return {
+        cell,
+        valid:
+          depths[i] >= 0 &&
+          !isStairs &&
+          !buildingStore.isOccupied(cell) &&
+          !captureStore.isCapturing({ ...cell, levelIndex }),
+        skip: index === targetIndex,
+        depth: depths[i],
+      };
+    });
+  }
+
+  private async updatePreview() {
+    const version = ++this.evaluateVersion;
+    const evaluated = await this.evaluate(this.getStrokeCells());
+    if (version !== this.evaluateVersion) return;
+
+    const { validColor, invalidColor, alpha } = BUILD_TOOLS_CONFIG.preview;
+    this.preview.clear();
+    evaluated.forEach(({ cell, valid, skip }) => {
+      if (skip) return;
+      this.preview
+        .fillStyle(valid ? validColor : invalidColor, alpha)
+        .fillRect(cell.X * TILE_SIZE, cell.Y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+    });
+  }
+}
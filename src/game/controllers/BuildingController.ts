@@ -0,0 +1,209 @@
+import type { GameObjects, Scene } from 'phaser';
+import { expectNever } from 'ts-expect';
+
+import {
+  type BuildingPlacementError,
+  getBuildingTextureKey,
+  getFootprint,
+  getFootprintSize,
+  getPlacementError,
+} from '@/game/buildingRegistry';
+import { BUILDING_CONFIG, BUILD_TOOLS_CONFIG, TILE_SIZE } from '@/game/constants';
+import type { TilemapController } from '@/game/controllers/TilemapController';
+import { useBuildingStore } from '@/store/buildingStore';
+import { useCaptureStore } from '@/store/captureStore';
+import { useLevelStore } from '@/store/levelStore';
+import { useToastStore } from '@/store/toastStore';
+import type { BuildingPlacement } from '@/types/building';
+import type { Cell } from '@/utils/buildShapes';
+
+/** Почему постройку нельзя поставить: правила реестра или незавершённый захват под футпринтом */
+type PlacementError = BuildingPlacementError | { type: 'capturing' };
+
+/**
+ * Спрайты построек, выбор и призрак размещения.
+ *
+ * ЗАЧЕМ: Постройки не входят в тайлмап — это спрайты над его слоями, по одному на постройку.
+ *
+ * АЛГОРИТМ:
+ * 1. Спрайт — текстура типа без поворота, центр — центр футпринта, угол — rotation × 90°
+ * 2. Задачи постройки — полупрозрачные спрайты на будущем месте
+ * 3. Режим размещения: призрак под курсором, зелёный — место годно (getPlacementError, захват под футпринтом), красный — нет
+ *
+ * ВЗАИМОДЕЙСТВИЕ: Всё перерисовывается по useBuildingStore().onBuildingsChanged — стор остаётся источником истины.
+ */
+export class BuildingController {
+  private readonly scene: Scene;
+  private readonly tilemapController: TilemapController;
+  private readonly sprites: GameObjects.Image[] = [];
+  private readonly selection: GameObjects.Graphics;
+  private readonly ghost: GameObjects.Image;
+  private readonly ghostOutline: GameObjects.Graphics;
+  private readonly unsubscribeChanged: () => void;
+  private pointerCell: Cell | null = null;
+
+  constructor({ scene, tilemapController }: { scene: Scene; tilemapController: TilemapController }) {
+    this.scene = scene;
+    this.tilemapController = tilemapController;
+    this.selection = scene.add.graphics().setDepth(BUILDING_CONFIG.depth + 1);
+    this.ghostOutline = scene.add.graphics().setDepth(BUILDING_CONFIG.depth + 1);
+    this.ghost = scene.add
+      .image(0, 0, '__DEFAULT')
+      .setDepth(BUILDING_CONFIG.depth + 1)
+      .setVisible(false);
+    this.unsubscribeChanged = useBuildingStore().onBuildingsChanged(() => this.render());
+  }
+
+  /** Курсор над клеткой (null — вне уровня): перерисовать призрак размещения */
+  updateGhost(cell: Cell | null) {
+    this.pointerCell = cell;
+    this.renderGhost();
+  }
+
+  /**
+   * Разместить постройку в режиме размещения — поставить задачу постройки.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Место негодно → подсказка, задачи нет; режим размещения остаётся (можно ставить следующую).
+   */
+  place(cell: Cell) {
+    const placement = this.getGhostPlacement(cell);
+    if (!placement) return;
+    const error = this.getPlacementError(placement);
+    if (error) return this.showPlacementError(error);
+    void useBuildingStore()
+      .queueBuilding({ ...placement, levelIndex: useLevelStore().currentLevelIndex })
+      .mapErr(error => {
+        switch (error.type) {
+          case 'overlap':
+          case 'capturing':
+            return this.showPlacementError(error);
+          case 'unknown_type':
+          case 'invalid_payload':
+          case 'duplicate_id':
+          case 'unknown_prerequisite':
+          case 'dependency_cycle':
+          case 'invalid_recurrence':
+            return console.error('[BuildingController] build task rejected:', error);
+          default:
+            expectNever(error);
+        }
+      });
+  }
+
+  /** Постройка, футпринт которой покрывает клетку */
+  getBuildingAt({ X, Y }: Cell) {
+    return useBuildingStore().buildings.find(building =>
+      getFootprint(building).some(cell => cell.X === X && cell.Y === Y)
+    );
+  }
+
+  destroy() {
+    this.unsubscribeChanged();
+    this.sprites.forEach(sprite => sprite.destroy());
+    this.selection.destroy();
+    this.ghost.destroy();
+    this.ghostOutline.destroy();
+  }
+
+  private render() {
+    const buildingStore = useBuildingStore();
+    this.sprites.forEach(sprite => sprite.destroy());
+    this.sprites.length = 0;
+    buildingStore.buildings.forEach(building => this.sprites.push(this.createSprite(building)));
+    buildingStore.pendingBuilds.forEach(({ payload }) =>
+      this.sprites.push(this.createSprite(payload).setAlpha(BUILD_TOOLS_CONFIG.preview.alpha))
+    );
+
+    this.selection.clear();
+    const { selected } = buildingStore;
+    if (selected) {
+      const { color, width } = BUILDING_CONFIG.selection;
+      const size = getFootprintSize(selected);
+      this.selection
+        .lineStyle(width, color)
+        .strokeRect(selected.X * TILE_SIZE, selected.Y * TILE_SIZE, size.width * TILE_SIZE, size.height * TILE_SIZE);
+    }
+    this.renderGhost();
+  }
+
+  private createSprite(placement: BuildingPlacement) {
+    const { width, height } = getFootprintSize(placement);
+    return this.scene.add
+      .image(
+        (placement.X + width / 2) * TILE_SIZE,
+        (placement.Y + height / 2) * TILE_SIZE,
+        getBuildingTextureKey(placement.type)
+      )
+      .setAngle(placement.rotation * 90)
+      .setDepth(BUILDING_CONFIG.depth);
+  }
+
+  /** Размещение призрака: курсор — в центре футпринта (левая верхняя клетка смещается на полразмера) */
+  private getGhostPlacement(cell: Cell): BuildingPlacement | null {
+    const { activeType, rotation } = useBuildingStore();
+    if (!activeType) return null;
+    const { width, height } = getFootprintSize({ type: activeType, rotation });
+    return {
+      type: activeType,
+      X: cell.X - Math.floor((width - 1) / 2),
+      Y: cell.Y - Math.floor((height - 1) / 2),
+      rotation,
+    };
+  }
+
+  /** Правила реестра построек и клетки с незавершённым захватом (тайл под ними ещё сменится) */
+  private getPlacementError(placement: BuildingPlacement): PlacementError | undefined {
+    const buildingStore = useBuildingStore();
+    const captureStore = useCaptureStore();
+    const levelIndex = useLevelStore().currentLevelIndex;
+    const error = getPlacementError(placement, {
+      getTileIndex: ({ X, Y }) => this.tilemapController.getTileIndex(X, Y),
+      isOccupied: cell => buildingStore.isOccupied(cell),
+    });
+    if (error) return error;
+    if (getFootprint(placement).some(cell => captureStore.isCapturing({ ...cell, levelIndex })))
+      return { type: 'capturing' };
+  }
+
+  private renderGhost() {
+    const placement = this.pointerCell && this.getGhostPlacement(this.pointerCell);
+    this.ghostOutline.clear();
+    if (!placement) return void this.ghost.setVisible(false);
+
+    const { width, height } = getFootprintSize(placement);
+    const { validColor, invalidColor } = BUILD_TOOLS_CONFIG.preview;
+    const color = this.getPlacementError(placement) ? invalidColor : validColor;
+    this.ghost
+      .setTexture(getBuildingTextureKey(placement.type))
+      .setPosition((placement.X + width / 2) * TILE_SIZE, (placement.Y + height / 2) * TILE_SIZE)
+      .setAngle(placement.rotation * 90)
+      .setTint(color)
+      .setAlpha(BUILDING_CONFIG.ghostAlpha)
+      .setVisible(true);
+    this.ghostOutline
+      .lineStyle(BUILDING_CONFIG.selection.width, color)
+      .strokeRect(placement.X * TILE_SIZE, placement.Y * TILE_SIZE, width * TILE_SIZE, height * TILE_SIZE);
+  }
+
+  private showPlacementError(error: PlacementError) {
+    switch (error.type) {
+      case 'unknown_type':
+        return console.error('[BuildingController] unknown building type:', error);
+      case 'not_floor':
+        return void useToastStore().show({
+          icon: 'warning',
+          title: 'Постройка ставится только на пол',
+          description: 'Каждая клетка под постройкой должна быть полом',
+        });
+      case 'overlap':
+        return void useToastStore().show({ icon: 'warning', title: 'Место занято другой постройкой' });
+      case 'capturing':
+        return void useToastStore().show({
+          icon: 'warning',
+          title: 'Клетки под постройкой ещё захватываются',
+          description: 'Постройку можно поставить, когда захват завершится',
+        });
+      default:
+        expectNever(error);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import type { GameObjects, Scene } from 'phaser';
+
+import { ROOM_CONFIG, TILE_SIZE } from '@/game/constants';
+import { useLevelStore } from '@/store/levelStore';
+import type { RoomWithCells } from '@/types/room';
+import { type Cell, cellId } from '@/utils/buildShapes';
+import { getSaveWorker } from '@/workers/saveWorkerProxy';
+
+/**
+ * Оверлей комнаты под курсором: граница по клеткам и подпись с размером.
+ *
+ * ЗАЧЕМ: Комнаты находит saveWorker — игрок видит, что область пола замкнута стенами и стала комнатой.
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Комната запрашивается при смене клетки под курсором и после правок карты (refresh)
+ * - Ответы воркера приходят асинхронно — рисуется только ответ на последний запрос (version)
+ */
+export class RoomOverlayController {
+  private readonly graphics: GameObjects.Graphics;
+  private readonly label: GameObjects.Text;
+  private hoverCell: Cell | null = null;
+  private version = 0;
+
+  constructor({ scene }: { scene: Scene }) {
+    const { depth, fontSize } = ROOM_CONFIG.overlay;
+    this.graphics = scene.add.graphics().setDepth(depth);
+    this.label = scene.add
+      .text(0, 0, '', {
+        fontSize: `${fontSize}px`,
+        color: '#ffffff',
+        backgroundColor: '#000000aa',
+        padding: { x: 6, y: 2 },
+      })
+      .setOrigin(0, 1)
+      .setDepth(depth)
+      .setVisible(false);
+  }
+
+  /** Курсор над клеткой (null — вне уровня) */
+  hover(cell: Cell | null) {
+    if (cell && this.hoverCell && cellId(cell) === cellId(this.hoverCell)) return;
+    this.hoverCell = cell;
+    void this.refresh();
+  }
+
+  /** Перезапросить комнату под курсором — карта или уровень изменились */
+  async refresh() {
+    const version = ++this.version;
+    const cell = this.hoverCell;
+    const room =
+      cell &&
+      (await getSaveWorker().getRoomAt({ levelIndex: useLevelStore().currentLevelIndex, X: cell.X, Y: cell.Y }));
+    if (version !== this.version) return;
+    this.draw(room ?? undefined);
+  }
+
+  destroy() {
+    this.version++;
+    this.graphics.destroy();
+    this.label.destroy();
+  }
+
+  /** Заливка клеток комнаты и граница по сторонам, за которыми не комната */
+  private draw(room: RoomWithCells | undefined) {
+    this.graphics.clear();
+    if (!room) return void this.label.setVisible(false);
+
+    const { color, lineWidth, fillAlpha } = ROOM_CONFIG.overlay;
+    const cells = new Set(room.cells.map(cellId));
+    this.graphics.fillStyle(color, fillAlpha).lineStyle(lineWidth, color);
+    room.cells.forEach(({ X, Y }) => {
+      const x = X * TILE_SIZE;
+      const y = Y * TILE_SIZE;
+      this.graphics.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+      if (!cells.has(cellId({ X, Y: Y - 1 }))) this.graphics.lineBetween(x, y, x + TILE_SIZE, y);
+      if (!cells.has(cellId({ X, Y: Y + 1 })))
+        this.graphics.lineBetween(x, y + TILE_SIZE, x + TILE_SIZE, y + TILE_SIZE);
+      if (!cells.has(cellId({ X: X - 1, Y }))) this.graphics.lineBetween(x, y, x, y + TILE_SIZE);
+      if (!cells.has(cellId({ X: X + 1, Y })))
+        this.graphics.lineBetween(x + TILE_SIZE, y, x + TILE_SIZE, y + TILE_SIZE);
+    });
+
+    const { X, Y, width, height } = room.bounds;
+    this.label
+      .setText(`Комната · ${room.area} кл. · ${width}×${height}`)
+      .setPosition(X * TILE_SIZE, Y * TILE_SIZE)
+      .setVisible(true);
+  }
+}
@@ -1,20 +1,32 @@
 import { isEqual } from 'lodash-es';
 import { type Cameras, Geom, Math as PMath, type Scene, type Tilemaps, type Time } from 'phaser';
 
+import { getAutotileFrame } from '@/game/autotile';
 import {
+  AUTOTILE_CONFIG,
   CAMERA_CONFIG,
+  FLOOR_TEXTURE_KEY,
+  STAIRS_CONFIG,
+  STAIRS_TEXTURE_KEY,
+  TERRAIN_CONFIG,
+  TERRAIN_TEXTURE_KEY,
   TILEMAP_STREAMING_CONFIG,
   TILE_MARGIN,
   TILE_SIZE,
   TILE_SPACING,
   TILE_TEXTURE_KEY,
+  WALL_TEXTURE_KEY,
 } from '@/game/constants';
-import type { TileIndexes } from '@/types/level';
+import { getAutotileMode } from '@/game/tileRegistry';
+import type { LevelIndex, TerrainIndexes, TileIndexes } from '@/types/level';
+import { getPerlinWorker } from '@/workers/perlinWorkerProxy';
 import { getSaveWorker } from '@/workers/saveWorkerProxy';
 
 /** Направление смещения слоя: -1 (влево/вверх), 0 (нет), 1 (вправо/вниз) */
 type Direction = -1 | 0 | 1;
 type DirectionVector = { x: Direction; y: Direction };
+/** Логический индекс клетки слоя: тайл игрока, ландшафт или -1 (пусто) */
+type LayerIndex = TileIndexes | TerrainIndexes | -1;
 function isZeroVector(vector: DirectionVector): vector is { x: 0; y: 0 } {
   return !(vector.x || vector.y);
 }
@@ -38,9 +50,16 @@ type VelocityState = {
 
 export class TilemapController {
   private readonly offsetTiles = { X: 0, Y: 0 };
+  /** Уровень, тайлы которого показывает слой */
+  private levelIndex: LevelIndex;
   private readonly scene: Scene;
   private readonly tilemap: Tilemaps.Tilemap;
   private readonly tileLayers: [Tilemaps.TilemapLayer, Tilemaps.TilemapLayer];
+  /**
+   * Логические индексы активного слоя с рамкой в одну клетку: [y + 1][x + 1] — клетка слоя (x, y).
+   * Слой рисует кадры автотайлов — тип клетки берётся отсюда; рамка даёт соседей клеткам на краю слоя.
+   */
+  private logicalData: LayerIndex[][] = [];
 
   private readonly dynamicSafeZone = new Geom.Rectangle(0, 0, 0, 0);
 
@@ -56,11 +75,14 @@ export class TilemapController {
 
   private pendingDirection: DirectionVector | null = null;
   private isGenerating = false;
+  /** Растёт при смене уровня: данные, запрошенные для прежнего уровня, отбрасываются */
+  private levelVersion = 0;
   private readonly motionTimer: Time.TimerEvent;
   private centerDebounceTimer?: Time.TimerEvent;
 
-  constructor(scene: Scene) {
+  constructor(scene: Scene, levelIndex: LevelIndex) {
     this.scene = scene;
+    this.levelIndex = levelIndex;
     const { widthAtTiles, heightAtTiles } = TilemapController.getTilemapSize(this.scene.cameras.main);
     const tilemap = (this.tilemap = this.scene.make.tilemap({
       tileWidth: TILE_SIZE,
@@ -71,9 +93,45 @@ export class TilemapController {
 
     const tilesetKey = 'tiles';
     tilemap.addTilesetImage(tilesetKey, TILE_TEXTURE_KEY, TILE_SIZE, TILE_SIZE, TILE_MARGIN, TILE_SPACING);
+    // Ландшафт — отдельный тайлсет: gid с firstIndex, тайлы игрока его не задевают
+    const terrainTilesetKey = 'terrain';
+    tilemap.addTilesetImage(
+      terrainTilesetKey,
+      TERRAIN_TEXTURE_KEY,
+      TILE_SIZE,
+      TILE_SIZE,
+      0,
+      0,
+      TERRAIN_CONFIG.firstIndex
+    );
+    const stairsTilesetKey = 'stairs';
+    tilemap.addTilesetImage(stairsTilesetKey, STAIRS_TEXTURE_KEY, TILE_SIZE, TILE_SIZE, 0, 0, STAIRS_CONFIG.firstIndex);
+
+    // Автотайлы: кадры стен и полов идут подряд за индексом тайла
+    const wallTilesetKey = 'walls';
+    tilemap.addTilesetImage(
+      wallTilesetKey,
+      WALL_TEXTURE_KEY,
+      TILE_SIZE,
+      TILE_SIZE,
+      0,
+      0,
+      AUTOTILE_CONFIG.wall.firstIndex
+    );
+    const floorTilesetKey = 'floors';
+    tilemap.addTilesetImage(
+      floorTilesetKey,
+      FLOOR_TEXTURE_KEY,
+      TILE_SIZE,
+      TILE_SIZE,
+      0,
+      0,
+      AUTOTILE_CONFIG.floor.firstIndex
+    );
 
-    const layer0 = tilemap.createBlankLayer('layer0', tilesetKey);
-    const layer1 = tilemap.createBlankLayer('layer1', tilesetKey);
+    const tilesets = [tilesetKey, terrainTilesetKey, stairsTilesetKey, wallTilesetKey, floorTilesetKey];
+    const layer0 = tilemap.createBlankLayer('layer0', tilesets);
+    const layer1 = tilemap.createBlankLayer('layer1', tilesets);
     if (!layer0 || !layer1) throw new Error('unknown error from createBlankLayer');
 
     this.tileLayers = [layer0, layer1];
@@ -104,13 +162,36 @@ export class TilemapController {
       .finally(() => (this.motionTimer.paused = false));
   }
 
-  getTileAtWorld({ worldX, worldY }: { worldX: number; worldY: number }) {
-    return this.getActiveLayer().getTileAtWorldXY(worldX, worldY, true);
+  /**
+   * Логический индекс в клетке карты: тайл игрока, ландшафт или -1 (не кадр автотайла).
+   * ГРАНИЧНЫЕ СЛУЧАИ: Клетка вне загруженного слоя → null.
+   */
+  getTileIndex(X: number, Y: number) {
+    const x = X - this.offsetTiles.X;
+    const y = Y - this.offsetTiles.Y;
+    const { width, height } = this.tilemap;
+    if (x < 0 || y < 0 || x >= width || y >= height) return null;
+    return this.logicalData[y + 1]?.[x + 1] ?? null;
   }
   private getActiveLayer() {
     return this.tileLayers[0];
   }
 
+  /**
+   * Показать другой уровень: слой перегенерируется по центру камеры.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Генерация для прежнего уровня, которая ещё идёт, отбрасывается (levelVersion).
+   */
+  async reload(levelIndex: LevelIndex) {
+    this.levelIndex = levelIndex;
+    const version = ++this.levelVersion;
+    this.pendingDirection = null;
+    this.cancelCenterDebounce();
+    const layerData = await this.generateLayerData(this.calculateCenteredLayerOffset());
+    if (version !== this.levelVersion) return;
+    this.applyLayerData(layerData);
+    this.updateSafeZone(this.getActiveLayer().getBounds());
+  }
+
   destroy(): void {
     this.motionTimer.destroy();
     this.centerDebounceTimer?.destroy();
@@ -303,10 +384,12 @@ export class TilemapController {
     if (this.offsetTiles.X === targetPos.X && this.offsetTiles.Y === targetPos.Y) return; // Цель достигнута — слой уже в нужной позиции
 
     this.isGenerating = true;
+    const version = this.levelVersion;
     const layerData = await this.generateLayerData(targetPos).catch(error => {
       console.error('[TilemapStreaming] Layer generation failed:', error);
     });
     this.isGenerating = false;
+    if (version !== this.levelVersion) return; // уровень сменился — слой показывает reload
     if (this.pendingDirection && !isEqual(direction, this.pendingDirection))
       return this.tryProcessTargetState(this.pendingDirection);
     if (this.offsetTiles.X === targetPos.X && this.offsetTiles.Y === targetPos.Y) return;
@@ -344,29 +427,77 @@ export class TilemapController {
     };
   }
 
+  /**
+   * Данные слоя: тайлы уровня поверх ландшафта — с рамкой в одну клетку для автотайлов на краю слоя.
+   *
+   * ВЗАИМОДЕЙСТВИЕ: Тайлы — saveWorker, ландшафт — perlinWorker (запрашиваются параллельно).
+   * Ландшафт не пишется в уровень: клетка без тайла игрока всегда показывает ландшафт по сиду мира.
+   */
   private async generateLayerData({ X, Y }: { X: number; Y: number }) {
-    const { width: widthTiles, height: heightTiles } = this.tilemap;
-    const tileLayerData = await getSaveWorker().getTileLayerData({
-      widthTiles,
-      heightTiles,
-      offsetTilesX: X,
-      offsetTilesY: Y,
-    });
+    const { width, height } = this.tilemap;
+    const area = {
+      levelIndex: this.levelIndex,
+      widthTiles: width + 2,
+      heightTiles: height + 2,
+      offsetTilesX: X - 1,
+      offsetTilesY: Y - 1,
+    };
+    const [tiles, terrain] = await Promise.all([
+      getSaveWorker().getTileLayerData(area),
+      getPerlinWorker().getTerrainLayerData(area),
+    ]);
+    const logicalData = tiles.map((row, y) => row.map((index, x): LayerIndex => (index >= 0 ? index : terrain[y][x])));
 
-    return { X, Y, tileLayerData };
+    return { X, Y, logicalData };
   }
-  private applyLayerData(data: { X: number; Y: number; tileLayerData: (TileIndexes | -1)[][] }) {
+  private applyLayerData(data: { X: number; Y: number; logicalData: LayerIndex[][] }) {
+    const { width, height } = this.tilemap;
+    const visualData = Array.from({ length: height }, (_, y) =>
+      Array.from({ length: width }, (_, x) => TilemapController.getVisualIndex(data.logicalData, x + 1, y + 1))
+    );
     this.tileLayers[1]
       .setVisible(false)
       .setPosition(data.X * TILE_SIZE, data.Y * TILE_SIZE)
-      .putTilesAt(data.tileLayerData, 0, 0)
+      .putTilesAt(visualData, 0, 0)
       .setVisible(true);
 
     this.tileLayers.reverse();
+    this.logicalData = data.logicalData;
     this.offsetTiles.X = data.X;
     this.offsetTiles.Y = data.Y;
     this.tileLayers[1].setVisible(false);
   }
+
+  /**
+   * Индекс для отрисовки клетки логической сетки: у автотайла — кадр по соседям того же типа.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Сосед за пределами сетки считается несоединённым (бывает только у клеток рамки — они не рисуются).
+   */
+  private static getVisualIndex(grid: LayerIndex[][], x: number, y: number) {
+    const index = grid[y][x];
+    const mode = getAutotileMode(index);
+    if (!mode) return index;
+    return index + getAutotileFrame(mode, (dx, dy) => grid[y + dy]?.[x + dx] === index);
+  }
+
+  /**
+   * Записать логический индекс клетки и перерисовать её и восемь соседей (их кадры автотайла зависят от неё).
+   * ГРАНИЧНЫЕ СЛУЧАИ: Клетка рамки — только запись (она не рисуется, но соседствует с краем слоя); дальше — ничего.
+   */
+  private setCell(X: number, Y: number, index: LayerIndex) {
+    const x = X - this.offsetTiles.X;
+    const y = Y - this.offsetTiles.Y;
+    const { width, height } = this.tilemap;
+    if (x < -1 || y < -1 || x > width || y > height) return;
+    this.logicalData[y + 1][x + 1] = index;
+
+    const layer = this.getActiveLayer();
+    for (let cellY = Math.max(0, y - 1); cellY <= Math.min(height - 1, y + 1); cellY++)
+      for (let cellX = Math.max(0, x - 1); cellX <= Math.min(width - 1, x + 1); cellX++) {
+        const visualIndex = TilemapController.getVisualIndex(this.logicalData, cellX + 1, cellY + 1);
+        if (visualIndex < 0) layer.removeTileAt(cellX, cellY);
+        else layer.putTileAt(visualIndex, cellX, cellY);
+      }
+  }
   private updateSafeZone({ centerX, centerY, width, height }: Geom.Rectangle) {
     const { baseSafeZoneRatio } = TILEMAP_STREAMING_CONFIG;
     const halfWidth = Math.round((width * baseSafeZoneRatio) / 2);
@@ -394,20 +525,23 @@ export class TilemapController {
     return { widthAtTiles: Math.ceil(k * camera.width), heightAtTiles: Math.ceil(k * camera.height) };
   }
 
-  isTileConnected(x: number, y: number) {
-    const X = x - this.offsetTiles.X;
-    const Y = y - this.offsetTiles.Y;
-    if (X < 0 || Y < 0) return false;
-    const layer = this.getActiveLayer();
-    return (
-      layer.getTileAt(X, Y)?.index >= 0 ||
-      layer.getTileAt(X, Y + 1)?.index >= 0 ||
-      layer.getTileAt(X, Y - 1)?.index >= 0 ||
-      layer.getTileAt(X + 1, Y)?.index >= 0 ||
-      layer.getTileAt(X - 1, Y)?.index >= 0
-    );
-  }
   updateTile(X: number, Y: number, index: TileIndexes) {
-    this.getActiveLayer().putTileAt(index, X - this.offsetTiles.X, Y - this.offsetTiles.Y);
+    this.setCell(X, Y, index);
+  }
+  /**
+   * Тайл игрока удалён — клетка снова показывает ландшафт.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Уровень сменился, пока считался ландшафт → ничего не делаем (слой уже другой).
+   */
+  async clearTile(X: number, Y: number) {
+    const version = this.levelVersion;
+    const [[terrain]] = await getPerlinWorker().getTerrainLayerData({
+      levelIndex: this.levelIndex,
+      widthTiles: 1,
+      heightTiles: 1,
+      offsetTilesX: X,
+      offsetTilesY: Y,
+    });
+    if (version !== this.levelVersion) return;
+    this.setCell(X, Y, terrain);
   }
 }
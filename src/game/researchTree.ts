@@ -0,0 +1,106 @@
+import { TASK_POOL_CONFIG } from '@/game/constants';
+
+type ResearchEffect =
+  /** Прибавка к коэффициенту внимания */
+  | { type: 'attentionCoefficient'; amount: number }
+  /** Включить жадный проход заполнения пула */
+  | { type: 'greedyPass' }
+  /** Умножить задержку жадного прохода */
+  | { type: 'greedyPassDelay'; factor: number };
+
+/** Узел дерева исследований */
+export interface ResearchNode {
+  id: string;
+  title: string;
+  description: string;
+  /** Исследования, которые должны быть открыты раньше */
+  requires: string[];
+  /** Цена внимания задачи исследования */
+  cost: number;
+  /** Длительность задачи исследования (ms игрового времени) */
+  duration: number;
+  effects: ResearchEffect[];
+}
+
+/**
+ * Дерево исследований.
+ * ВЗАИМОДЕЙСТВИЕ: Эффекты открытых узлов считают и движок задач в saveWorker, и main thread (getResearchEffects).
+ */
+export const RESEARCH_NODES = [
+  {
+    id: 'focus-1',
+    title: 'Сосредоточенность I',
+    description: '+1 к коэффициенту внимания',
+    requires: [],
+    cost: 1,
+    duration: 60 * 1000,
+    effects: [{ type: 'attentionCoefficient', amount: 1 }],
+  },
+  {
+    id: 'focus-2',
+    title: 'Сосредоточенность II',
+    description: '+2 к коэффициенту внимания',
+    requires: ['focus-1'],
+    cost: 2,
+    duration: 3 * 60 * 1000,
+    effects: [{ type: 'attentionCoefficient', amount: 2 }],
+  },
+  {
+    id: 'focus-3',
+    title: 'Сосредоточенность III',
+    description: '+3 к коэффициенту внимания',
+    requires: ['focus-2'],
+    cost: 3,
+    duration: 10 * 60 * 1000,
+    effects: [{ type: 'attentionCoefficient', amount: 3 }],
+  },
+  {
+    id: 'multitasking',
+    title: 'Многозадачность',
+    description: 'Жадный проход: если первая задача очереди не влезает, через паузу стартуют те, что влезают',
+    requires: ['focus-1'],
+    cost: 1,
+    duration: 2 * 60 * 1000,
+    effects: [{ type: 'greedyPass' }],
+  },
+  {
+    id: 'quick-glance',
+    title: 'Беглый взгляд',
+    description: 'Задержка жадного прохода ×0.5',
+    requires: ['multitasking'],
+    cost: 2,
+    duration: 5 * 60 * 1000,
+    effects: [{ type: 'greedyPassDelay', factor: 0.5 }],
+  },
+  {
+    id: 'overview',
+    title: 'Обзор',
+    description: 'Задержка жадного прохода ×0.5',
+    requires: ['quick-glance', 'focus-2'],
+    cost: 3,
+    duration: 10 * 60 * 1000,
+    effects: [{ type: 'greedyPassDelay', factor: 0.5 }],
+  },
+] as const satisfies ResearchNode[];
+
+export type ResearchNodeId = (typeof RESEARCH_NODES)[number]['id'];
+
+const nodesById = new Map<string, ResearchNode>(RESEARCH_NODES.map(node => [node.id, node]));
+
+export const getResearchNode = (id: string) => nodesById.get(id);
+
+/**
+ * Суммарные эффекты открытых исследований.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Неизвестные id (узел убран из дерева) пропускаются.
+ */
+export function getResearchEffects(unlocked: readonly string[]) {
+  let attentionBonus = 0;
+  let greedyPassEnabled = false;
+  let greedyPassDelay: number = TASK_POOL_CONFIG.greedyPassDelay;
+  for (const effect of unlocked.flatMap(id => getResearchNode(id)?.effects ?? [])) {
+    if (effect.type === 'attentionCoefficient') attentionBonus += effect.amount;
+    else if (effect.type === 'greedyPass') greedyPassEnabled = true;
+    else greedyPassDelay *= effect.factor;
+  }
+  return { attentionBonus, greedyPassEnabled, greedyPassDelay };
+}
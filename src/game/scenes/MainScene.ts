@@ -1,10 +1,22 @@
 import { debounce } from 'lodash-es';
-import { type Cameras, Input, Scene } from 'phaser';
+import { type Cameras, Input, Scene, Time } from 'phaser';
+import { expectNever } from 'ts-expect';
 
-import { CAMERA_CONFIG, MOVEMENT_CONFIG, TILE_INDEX, TILE_KEYS, TILE_SIZE } from '@/game/constants';
+import { CAMERA_CONFIG, MOVEMENT_CONFIG, TILE_SIZE } from '@/game/constants';
+import { BuildToolController } from '@/game/controllers/BuildToolController';
+import { BuildingController } from '@/game/controllers/BuildingController';
+import { RoomOverlayController } from '@/game/controllers/RoomOverlayController';
 import { TilemapController } from '@/game/controllers/TilemapController';
+import { TILE_INDEX, TOOLBAR_TILES, getTileDefinition } from '@/game/tileRegistry';
+import { useTasksStore } from '@/store/attentionStore';
+import { useBuildingStore } from '@/store/buildingStore';
 import { useCameraPositionStore, useCameraZoomStore } from '@/store/cameraStore';
+import { useCaptureStore } from '@/store/captureStore';
+import { useGameClockStore } from '@/store/gameClockStore';
+import { useLevelStore } from '@/store/levelStore';
+import { useToastStore } from '@/store/toastStore';
 import { useToolbarStore } from '@/store/toolbarStore';
+import type { LevelIndex } from '@/types/level';
 import { getSaveWorker } from '@/workers/saveWorkerProxy';
 
 export class MainScene extends Scene {
@@ -12,15 +24,30 @@ export class MainScene extends Scene {
   // @ts-expect-error - контроллер не используется напрямую, но необходим для управления зумом
   private zoomController!: CameraZoomController;
   private cameraMoveController!: CameraMoveController;
-  // @ts-expect-error - контроллер не используется напрямую, но необходим для управления тайлами
   private tileController!: TileController;
+  /**
+   * Часы для геймплейных таймеров сцены — идут от игровых часов движка (пауза, скорость).
+   * this.time остаётся на реальном времени: стриминг тайлмапа и камера работают и на паузе.
+   */
+  gameTime!: Time.Clock;
+  private unsubscribeGameTime?: () => void;
+  private unsubscribeLevelChanged?: () => void;
 
   constructor() {
     super({ key: 'MainScene' });
   }
 
   create() {
-    this.tilemapController = new TilemapController(this);
+    const levelStore = useLevelStore();
+    this.tilemapController = new TilemapController(this, levelStore.currentLevelIndex);
+
+    const gameClock = useGameClockStore();
+    this.gameTime = new Time.Clock(this);
+    this.gameTime.now = gameClock.gameTime;
+    this.unsubscribeGameTime = gameClock.onTick(delta => {
+      this.gameTime.preUpdate(gameClock.gameTime, delta);
+      this.gameTime.update(gameClock.gameTime, delta);
+    });
 
     const { main: camera } = this.cameras;
     const { input } = this;
@@ -32,14 +59,20 @@ export class MainScene extends Scene {
     this.zoomController = new CameraZoomController({
       camera,
       input,
-      saveCameraPosition: CameraMoveController.debouncedSavePosition,
+      saveCameraPosition: (x, y) => CameraMoveController.debouncedSavePosition(levelStore.currentLevelIndex, x, y),
     });
     this.tileController = new TileController({
+      scene: this,
       camera,
       input,
       tilemapController: this.tilemapController,
     });
     if (input.keyboard) registerUIKeyboardBindings(input.keyboard);
+    this.unsubscribeLevelChanged = levelStore.onLevelChanged((levelIndex, focus) => this.showLevel(levelIndex, focus));
+
+    // Задачи грузим после TileController — обработчик завершения захвата уже подписан
+    void useTasksStore().loadFromWorker();
+    void useBuildingStore().loadFromWorker();
   }
 
   update(time: number, delta: number) {
@@ -47,7 +80,37 @@ export class MainScene extends Scene {
     this.cameraMoveController.handleMovement(delta);
   }
 
+  /**
+   * Показать другой уровень.
+   *
+   * АЛГОРИТМ:
+   * 1. Дописать отложенные сохранения камеры прежнего уровня
+   * 2. Зум уровня; позиция — сохранённая или (переход по лестнице) по центру клетки лестницы
+   * 3. Перезагрузить слои тайлмапа и постройки
+   */
+  private showLevel(levelIndex: LevelIndex, focus?: { X: number; Y: number }) {
+    CameraMoveController.debouncedSavePosition.flush();
+    CameraZoomController.debouncedSaveZoom.flush();
+    this.tileController.cancelBuild(); // штрих прежнего уровня не должен захватить клетки нового
+    this.tileController.refreshRooms();
+    const camera = this.cameras.main;
+    camera.setZoom(useCameraZoomStore().getZoom(levelIndex));
+    if (focus) {
+      camera.centerOn((focus.X + 0.5) * TILE_SIZE, (focus.Y + 0.5) * TILE_SIZE);
+      useCameraPositionStore().setPosition(levelIndex, camera.scrollX, camera.scrollY);
+    } else {
+      const { x, y } = useCameraPositionStore().getPosition(levelIndex);
+      camera.setScroll(x, y);
+    }
+    void this.tilemapController.reload(levelIndex);
+    void useBuildingStore().loadFromWorker();
+  }
+
   destroy() {
+    this.unsubscribeLevelChanged?.();
+    this.unsubscribeGameTime?.();
+    this.gameTime?.removeAllEvents();
+    this.tileController?.destroy();
     this.tilemapController?.destroy();
   }
 }
@@ -56,12 +119,18 @@ class TileController {
   private readonly camera: Cameras.Scene2D.Camera;
   private readonly input: Input.InputPlugin;
   private readonly tilemapController: TilemapController;
+  private readonly buildTool: BuildToolController;
+  private readonly buildingController: BuildingController;
+  private readonly roomOverlay: RoomOverlayController;
+  private readonly unsubscribeCaptured: () => void;
 
   constructor({
+    scene,
     camera,
     input,
     tilemapController,
   }: {
+    scene: Scene;
     camera: Cameras.Scene2D.Camera;
     input: Input.InputPlugin;
     tilemapController: TilemapController;
@@ -69,45 +138,233 @@ class TileController {
     this.camera = camera;
     this.input = input;
     this.tilemapController = tilemapController;
+    this.buildTool = new BuildToolController({ scene, tilemapController });
+    this.buildingController = new BuildingController({ scene, tilemapController });
+    this.roomOverlay = new RoomOverlayController({ scene });
 
     // Регистрируем обработчики кликов мыши
+    this.input.mouse?.disableContextMenu(); // ПКМ занята удалением тайла
     this.input.on('pointerdown', (pointer: Input.Pointer) => {
+      const buildingStore = useBuildingStore();
       if (pointer.button === 0) {
-        // ЛКМ - строить тайл
-        this.placeTile(pointer);
+        // ЛКМ - поставить постройку, выбрать постройку или строить инструментом (кисть, линия, прямоугольник, заливка)
+        this.handlePrimaryClick(pointer);
       } else if (pointer.button === 1) {
         // Средняя кнопка - пипетка
         this.eyedropperTool(pointer);
+      } else if (pointer.button === 2) {
+        // ПКМ - выйти из режима размещения постройки, иначе удалить тайл
+        if (buildingStore.activeType) buildingStore.cancelPlacement();
+        else this.removeTile(pointer);
       }
     });
+
+    this.input.on('pointermove', (pointer: Input.Pointer) => {
+      const cell = this.getPointerCell(pointer);
+      this.buildingController.updateGhost(cell);
+      this.roomOverlay.hover(cell);
+      if (this.buildTool.isActive && cell) this.buildTool.move(cell);
+    });
+    const finishBuild = (pointer: Input.Pointer) => {
+      if (pointer.button === 0 && this.buildTool.isActive) void this.buildTool.finish();
+    };
+    this.input.on('pointerup', finishBuild);
+    this.input.on('pointerupoutside', finishBuild);
+    this.input.keyboard?.on('keydown-ESC', () => {
+      this.cancelBuild();
+      useBuildingStore().cancelPlacement();
+      useBuildingStore().select(null);
+    });
+    // E - повернуть размещаемую постройку, Delete - снести выбранную
+    this.input.keyboard?.on('keydown-E', () => useBuildingStore().rotate());
+    this.input.keyboard?.on('keydown-DELETE', () => void useBuildingStore().removeSelected());
+    // Ctrl+Z - отменить правку карты, Ctrl+Shift+Z - повторить
+    this.input.keyboard?.on('keydown-Z', (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey) this.applyEditHistory(event.shiftKey ? 'redo' : 'undo');
+    });
+
+    // Захват мог завершиться на другом уровне: на экране — только тайлы текущего (и stairsUp под лестницей)
+    this.unsubscribeCaptured = useCaptureStore().onCaptured(({ X, Y, targetIndex, levelIndex = 0 }) => {
+      const { currentLevelIndex } = useLevelStore();
+      if (levelIndex === currentLevelIndex) {
+        this.tilemapController.updateTile(X, Y, targetIndex);
+        void this.roomOverlay.refresh();
+      } else if (targetIndex === TILE_INDEX.stairsDown && levelIndex + 1 === currentLevelIndex)
+        this.tilemapController.updateTile(X, Y, TILE_INDEX.stairsUp);
+    });
+  }
+
+  /** Бросить незавершённый штрих без захвата */
+  cancelBuild() {
+    this.buildTool.cancel();
+  }
+
+  /** Перезапросить комнату под курсором (уровень сменился) */
+  refreshRooms() {
+    void this.roomOverlay.refresh();
+  }
+
+  destroy() {
+    this.unsubscribeCaptured();
+    this.buildTool.destroy();
+    this.buildingController.destroy();
+    this.roomOverlay.destroy();
   }
 
-  private async placeTile(pointer: Input.Pointer) {
-    // Конвертируем позицию клика в координаты тайла
+  /** Клетка под курсором; вне активного слоя — null */
+  private getPointerCell(pointer: Input.Pointer) {
     const { x: worldX, y: worldY } = this.camera.getWorldPoint(pointer.x, pointer.y);
-    const isOutOfTileLayer = this.tilemapController.getTileAtWorld({ worldX, worldY }) == null;
-    if (isOutOfTileLayer) {
+    const X = Math.floor(worldX / TILE_SIZE);
+    const Y = Math.floor(worldY / TILE_SIZE);
+    const index = this.tilemapController.getTileIndex(X, Y);
+    return index === null ? null : { X, Y, index };
+  }
+
+  /**
+   * ЛКМ нажата.
+   *
+   * АЛГОРИТМ:
+   * 1. Режим размещения — поставить постройку
+   * 2. Клик по постройке — выбрать её
+   * 3. Клик по лестнице — переход, иначе начало штриха инструмента строительства (выбор снимается)
+   */
+  private handlePrimaryClick(pointer: Input.Pointer) {
+    const cell = this.getPointerCell(pointer);
+    if (!cell) {
       // если под мышью нет тайла, то что-то идёт не так, под камерой всегда должен быть активный слой. Возможно стоит посмотреть TilemapController
-      console.error('placeTile called out of active Layer, maybe active Layer is not loaded. ', { worldX, worldY });
+      console.error(
+        'handlePrimaryClick called out of active Layer, maybe active Layer is not loaded. ',
+        pointer.position
+      );
       return;
     }
+    const { X, Y, index } = cell;
+    const buildingStore = useBuildingStore();
+    if (buildingStore.activeType) return this.buildingController.place({ X, Y });
+    const building = this.buildingController.getBuildingAt({ X, Y });
+    if (building) return buildingStore.select(building.id);
+    if (buildingStore.selectedId) buildingStore.select(null);
+    if (index === TILE_INDEX.stairsDown || index === TILE_INDEX.stairsUp)
+      return this.takeStairs({ X, Y, isDown: index === TILE_INDEX.stairsDown });
+    this.buildTool.start({ X, Y });
+  }
 
+  /**
+   * Удалить тайл под курсором — сразу, без задачи.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Удаление, которое разорвёт уровень, уберёт лестницу или пол под постройкой, отклоняется с подсказкой.
+   */
+  private removeTile(pointer: Input.Pointer) {
+    const { x: worldX, y: worldY } = this.camera.getWorldPoint(pointer.x, pointer.y);
     const X = Math.floor(worldX / TILE_SIZE);
     const Y = Math.floor(worldY / TILE_SIZE);
-    if (!this.tilemapController.isTileConnected(X, Y)) return; // бизнеслогика. Тайл можно размещать только в контакте с другими размещёнными тайлами
+    const levelIndex = useLevelStore().currentLevelIndex;
+    void getSaveWorker()
+      .removeTile({ levelIndex, X, Y })
+      .then(error => {
+        if (!error) {
+          if (levelIndex === useLevelStore().currentLevelIndex) {
+            void this.tilemapController.clearTile(X, Y);
+            void this.roomOverlay.refresh();
+          }
+          return;
+        }
+        switch (error.type) {
+          case 'no_tile':
+            return; // под курсором ландшафт — удалять нечего
+          case 'stairs':
+            return void useToastStore().show({ icon: 'warning', title: 'Лестницу убрать нельзя' });
+          case 'building':
+            return void useToastStore().show({
+              icon: 'warning',
+              title: 'Тайл под постройкой',
+              description: 'Сначала снесите постройку',
+            });
+          case 'last_tile':
+            return void useToastStore().show({ icon: 'warning', title: 'Последний тайл уровня убрать нельзя' });
+          case 'splits_level':
+            return void useToastStore().show({
+              icon: 'warning',
+              title: 'Тайл держит связность уровня',
+              description: 'Без него подземелье распадётся на острова',
+            });
+          default:
+            expectNever(error);
+        }
+      });
+  }
+
+  /**
+   * Отменить или повторить правку карты из истории saveWorker.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Правка другого уровня — переход на него, камера — на первую клетку правки.
+   */
+  private applyEditHistory(direction: 'undo' | 'redo') {
+    const worker = getSaveWorker();
+    void (direction === 'undo' ? worker.undoEdit() : worker.redoEdit()).then(result => {
+      switch (result.type) {
+        case 'applied': {
+          const levelStore = useLevelStore();
+          if (result.levelIndex !== levelStore.currentLevelIndex)
+            return void levelStore
+              .switchLevel(result.levelIndex, result.tiles[0])
+              .mapErr(error => console.error('[TileController] edit history level is unknown:', error));
+          result.tiles.forEach(({ X, Y, index }) =>
+            index === -1 ? void this.tilemapController.clearTile(X, Y) : this.tilemapController.updateTile(X, Y, index)
+          );
+          return void this.roomOverlay.refresh();
+        }
+        case 'empty':
+          return void useToastStore().show({
+            icon: 'info',
+            title: direction === 'undo' ? 'Отменять нечего' : 'Повторять нечего',
+          });
+        case 'conflict':
+          return void useToastStore().show({
+            icon: 'warning',
+            title: 'Правка убрана из истории',
+            description: 'Клетки уже изменены другим действием',
+          });
+        case 'occupied':
+          return void useToastStore().show({
+            icon: 'warning',
+            title: 'Правка задевает постройку',
+            description: 'Сначала снесите постройку',
+          });
+        case 'last_tile':
+          return void useToastStore().show({ icon: 'warning', title: 'Последний тайл уровня убрать нельзя' });
+        case 'splits_level':
+          return void useToastStore().show({
+            icon: 'warning',
+            title: 'Правка разорвёт уровень',
+            description: 'Без этих тайлов подземелье распадётся на острова',
+          });
+        case 'not_connected':
+          return void useToastStore().show({
+            icon: 'warning',
+            title: 'Правка не связана с уровнем',
+            description: 'Тайлы размещаются только рядом с существующими',
+          });
+        default:
+          expectNever(result);
+      }
+    });
+  }
 
-    const toolbarStore = useToolbarStore();
-    const index = TILE_INDEX[toolbarStore.activeTile];
-    this.tilemapController.updateTile(X, Y, index);
-    await getSaveWorker().setTile({ X, Y, index });
+  /**
+   * Переход по лестнице на соседний уровень — в ту же клетку.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Соседнего уровня нет (лестница без пары) → ошибка в консоль.
+   */
+  private takeStairs({ X, Y, isDown }: { X: number; Y: number; isDown: boolean }) {
+    const levelStore = useLevelStore();
+    void levelStore
+      .switchLevel(levelStore.currentLevelIndex + (isDown ? 1 : -1), { X, Y })
+      .mapErr(error => console.error('[TileController] stairs lead nowhere:', error));
   }
 
   private eyedropperTool(pointer: Input.Pointer) {
-    const { x: worldX, y: worldY } = this.camera.getWorldPoint(pointer.x, pointer.y);
-    const { index } = this.tilemapController.getTileAtWorld({ worldX, worldY });
-    const type = TILE_KEYS[index as keyof typeof TILE_KEYS];
-    if (!type) return;
-    useToolbarStore().setActiveTile(type);
+    const cell = this.getPointerCell(pointer);
+    const tile = cell && getTileDefinition(cell.index);
+    if (!tile?.inToolbar) return; // ландшафт; stairsUp ставит только лестница сверху
+    useToolbarStore().setActiveTile(tile.key);
   }
 }
 
@@ -120,7 +377,7 @@ class CameraMoveController {
     this.input = input;
     this.camera = camera;
 
-    const { position } = useCameraPositionStore();
+    const position = useCameraPositionStore().getPosition(useLevelStore().currentLevelIndex);
     this.camera.setScroll(position.x, position.y);
 
     this.cursorKeys =
@@ -148,11 +405,15 @@ class CameraMoveController {
     );
     if (x) this.camera.scrollX = Math.round(this.camera.scrollX + x * move);
     if (y) this.camera.scrollY = Math.round(this.camera.scrollY + y * move);
-    CameraMoveController.debouncedSavePosition(this.camera.scrollX, this.camera.scrollY);
+    CameraMoveController.debouncedSavePosition(
+      useLevelStore().currentLevelIndex,
+      this.camera.scrollX,
+      this.camera.scrollY
+    );
   }
 
   static readonly debouncedSavePosition = debounce(
-    (x: number, y: number) => useCameraPositionStore().setPosition(x, y),
+    (levelIndex: LevelIndex, x: number, y: number) => useCameraPositionStore().setPosition(levelIndex, x, y),
     500
   );
 }
@@ -174,7 +435,7 @@ class CameraZoomController {
     this.saveCameraPosition = saveCameraPosition;
     this.input = input;
 
-    this.camera.setZoom(useCameraZoomStore().zoom);
+    this.camera.setZoom(useCameraZoomStore().getZoom(useLevelStore().currentLevelIndex));
     this.input.on('wheel', (pointer: Input.Pointer, _gameObjects: unknown, deltaX: number, deltaY: number) =>
       this.handleWheel(pointer, deltaY || deltaX)
     );
@@ -188,28 +449,48 @@ class CameraZoomController {
     );
     if (newZoom === oldZoom) return;
 
-    CameraZoomController.debouncedSaveZoom(this.camera.setZoom(newZoom).zoom);
+    CameraZoomController.debouncedSaveZoom(useLevelStore().currentLevelIndex, this.camera.setZoom(newZoom).zoom);
     this.saveCameraPosition(this.camera.scrollX, this.camera.scrollY);
   }
 
-  private static readonly debouncedSaveZoom = debounce((zoom: number) => useCameraZoomStore().setZoom(zoom), 200);
+  static readonly debouncedSaveZoom = debounce(
+    (levelIndex: LevelIndex, zoom: number) => useCameraZoomStore().setZoom(levelIndex, zoom),
+    200
+  );
 }
 
 /**
  * Регистрирует клавиатурные привязки для управления интерфейсом
  */
 function registerUIKeyboardBindings(keyboard: Input.Keyboard.KeyboardPlugin) {
-  // Клавиши 1/2/3 - выбор тайла
-  keyboard.on('keydown-ONE', () => {
-    const toolbarStore = useToolbarStore();
-    toolbarStore.setActiveTile('grass0');
+  // Цифры 1–9 - выбор тайла (порядок панели инструментов, см. TOOLBAR_TILES)
+  keyboard.on('keydown', (event: KeyboardEvent) => {
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    const tile = TOOLBAR_TILES.find(({ hotkey }) => hotkey === event.key);
+    if (tile) useToolbarStore().setActiveTile(tile.key);
   });
-  keyboard.on('keydown-TWO', () => {
-    const toolbarStore = useToolbarStore();
-    toolbarStore.setActiveTile('grass1');
-  });
-  // keyboard.on('keydown-THREE', () => {
-  //   const toolbarStore = useToolbarStore();
-  //   toolbarStore.setActiveTile('grass1');
-  // });
+  // B/L/R/F/G - инструмент строительства
+  keyboard.on('keydown-B', () => useToolbarStore().setActiveTool('brush'));
+  keyboard.on('keydown-L', () => useToolbarStore().setActiveTool('line'));
+  keyboard.on('keydown-R', () => useToolbarStore().setActiveTool('rect'));
+  keyboard.on('keydown-F', () => useToolbarStore().setActiveTool('fillRect'));
+  keyboard.on('keydown-G', () => useToolbarStore().setActiveTool('fill'));
+  // PageUp / PageDown - уровень выше / глубже
+  keyboard.on('keydown-PAGE_UP', () => switchAdjacentLevel(-1));
+  keyboard.on('keydown-PAGE_DOWN', () => switchAdjacentLevel(1));
+  // Пробел - общая пауза игры
+  keyboard.on('keydown-SPACE', () => useGameClockStore().togglePause());
+}
+
+/** Соседний уровень по хоткею; уровня нет — подсказка, как его получить */
+function switchAdjacentLevel(offset: -1 | 1) {
+  void useLevelStore()
+    .switchByOffset(offset)
+    .mapErr(() =>
+      useToastStore().show({
+        icon: 'info',
+        title: offset < 0 ? 'Выше уровней нет' : 'Глубже уровней нет',
+        description: offset < 0 ? undefined : 'Создайте уровень в панели уровней или прокопайте лестницу',
+      })
+    );
 }
@@ -1,6 +1,29 @@
-import { Scene } from 'phaser';
+import { Display, type GameObjects, Scene } from 'phaser';
 
-import { TILE_INDEX, TILE_MARGIN, TILE_SIZE, TILE_SPACING, TILE_TEXTURE_KEY } from '@/game/constants';
+import { AUTOTILE_FRAME_COUNT, BLOB_BITS, BLOB_CORNERS, EDGE_BITS, getAutotileMask } from '@/game/autotile';
+import { BUILDING_DEFINITIONS, getBuildingTextureKey } from '@/game/buildingRegistry';
+import {
+  AUTOTILE_CONFIG,
+  BUILDING_CONFIG,
+  FLOOR_TEXTURE_KEY,
+  LEVEL_CONFIG,
+  STAIRS_CONFIG,
+  STAIRS_TEXTURE_KEY,
+  TERRAIN_CONFIG,
+  TERRAIN_KEYS,
+  TERRAIN_TEXTURE_KEY,
+  TILE_MARGIN,
+  TILE_SIZE,
+  TILE_SPACING,
+  TILE_TEXTURE_KEY,
+  WALL_TEXTURE_KEY,
+} from '@/game/constants';
+import { TILE_INDEX, TOOLBAR_TILES } from '@/game/tileRegistry';
+import { useLevelStore } from '@/store/levelStore';
+import { useToastStore } from '@/store/toastStore';
+import { useToolbarStore } from '@/store/toolbarStore';
+import type { TerrainIndexes } from '@/types/level';
+import { getPerlinWorker } from '@/workers/perlinWorkerProxy';
 import { getSaveWorker } from '@/workers/saveWorkerProxy';
 
 export class PreloadScene extends Scene {
@@ -18,22 +41,182 @@ export class PreloadScene extends Scene {
   }
 
   create() {
+    this.createTerrainTexture();
+    this.createStairsTexture();
+    this.createAutotileTextures();
+    this.createBuildingTextures();
+    this.createToolbarThumbnails();
     const worker = getSaveWorker();
     worker
       .waitForReady()
-      .then(() => worker.getTilesCountInLevel())
-      .then(tilesCount => {
-        if (tilesCount) return;
+      .then(() => worker.getWorldSeed())
+      .then(seed => getPerlinWorker().init(seed, TERRAIN_CONFIG.noise))
+      .then(() => worker.isLevelEmpty())
+      .then(isEmpty => {
+        if (!isEmpty) return;
+        const { startAreaSize } = LEVEL_CONFIG;
+        const half = Math.floor(startAreaSize / 2);
         return worker.setTiles({
-          tiles: Array.from({ length: 5 }, (_, i) => i - 2).flatMap(x =>
-            Array.from({ length: 5 }, (_, i) => ({
+          tiles: Array.from({ length: startAreaSize }, (_, i) => i - half).flatMap(x =>
+            Array.from({ length: startAreaSize }, (_, i) => ({
               x,
-              y: i - 2,
+              y: i - half,
               index: TILE_INDEX.grass0,
             }))
           ),
         });
       })
-      .then(() => this.scene.start('MainScene'));
+      .then(() => useLevelStore().loadFromWorker())
+      .then(() => this.scene.start('MainScene'))
+      .catch(error => {
+        // Без сохранения сцена не стартует: карта и задачи не загружены
+        console.error('[PreloadScene] save failed to load:', error);
+        useToastStore().show({
+          icon: 'warning',
+          title: 'Сохранение не загрузилось',
+          description: 'Перезагрузите страницу; если ошибка повторится — сообщите о ней',
+        });
+      });
+  }
+
+  /** Текстура ландшафта: по кадру цвета на индекс, в порядке TERRAIN_KEYS (без отступов) */
+  private createTerrainTexture() {
+    const graphics = this.make.graphics({}, false);
+    const indexes = Object.keys(TERRAIN_KEYS).map(Number) as TerrainIndexes[];
+    indexes.forEach(index => {
+      graphics
+        .fillStyle(TERRAIN_CONFIG.colors[TERRAIN_KEYS[index]])
+        .fillRect((index - TERRAIN_CONFIG.firstIndex) * TILE_SIZE, 0, TILE_SIZE, TILE_SIZE);
+    });
+    graphics.generateTexture(TERRAIN_TEXTURE_KEY, indexes.length * TILE_SIZE, TILE_SIZE);
+    graphics.destroy();
+  }
+
+  /**
+   * Текстура лестниц: кадр 0 — stairsDown (ступени сужаются книзу), кадр 1 — stairsUp (расширяются).
+   */
+  private createStairsTexture() {
+    const { colors, steps } = STAIRS_CONFIG;
+    const graphics = this.make.graphics({}, false);
+    const stepHeight = TILE_SIZE / (steps * 2);
+    graphics.fillStyle(colors.background).fillRect(0, 0, TILE_SIZE * 2, TILE_SIZE);
+    graphics.fillStyle(colors.steps);
+    for (let step = 0; step < steps; step++) {
+      const y = stepHeight / 2 + step * stepHeight * 2;
+      const downInset = ((step + 1) * TILE_SIZE) / (steps * 3);
+      const upInset = ((steps - step) * TILE_SIZE) / (steps * 3);
+      graphics.fillRect(downInset, y, TILE_SIZE - downInset * 2, stepHeight);
+      graphics.fillRect(TILE_SIZE + upInset, y, TILE_SIZE - upInset * 2, stepHeight);
+    }
+    graphics.generateTexture(STAIRS_TEXTURE_KEY, TILE_SIZE * 2, TILE_SIZE);
+    graphics.destroy();
+    this.addFrames(STAIRS_TEXTURE_KEY, 2);
+  }
+
+  /**
+   * Текстуры автотайлов: кадр на каждую маску соседей в порядке кадров набора (getAutotileMask).
+   * Стена — кромка со свободных сторон и во внутренних углах, пол — бордюр со свободных сторон.
+   */
+  private createAutotileTextures() {
+    const { wall, floor } = AUTOTILE_CONFIG;
+    const graphics = this.make.graphics({}, false);
+    const wallCorners = [
+      { corner: BLOB_BITS.northEast, x: TILE_SIZE - wall.rimWidth, y: 0 },
+      { corner: BLOB_BITS.southEast, x: TILE_SIZE - wall.rimWidth, y: TILE_SIZE - wall.rimWidth },
+      { corner: BLOB_BITS.southWest, x: 0, y: TILE_SIZE - wall.rimWidth },
+      { corner: BLOB_BITS.northWest, x: 0, y: 0 },
+    ];
+    for (let frame = 0; frame < AUTOTILE_FRAME_COUNT.blob; frame++) {
+      const mask = getAutotileMask('blob', frame);
+      this.drawFrameBorder(graphics, frame * TILE_SIZE, wall.colors, wall.rimWidth, {
+        north: !(mask & BLOB_BITS.north),
+        east: !(mask & BLOB_BITS.east),
+        south: !(mask & BLOB_BITS.south),
+        west: !(mask & BLOB_BITS.west),
+      });
+      // Внутренний угол: обе стороны заняты, диагональ свободна
+      BLOB_CORNERS.forEach(({ corner, sides }) => {
+        if ((mask & sides) !== sides || mask & corner) return;
+        const { x, y } = wallCorners.find(position => position.corner === corner)!;
+        graphics.fillRect(frame * TILE_SIZE + x, y, wall.rimWidth, wall.rimWidth);
+      });
+    }
+    graphics.generateTexture(WALL_TEXTURE_KEY, AUTOTILE_FRAME_COUNT.blob * TILE_SIZE, TILE_SIZE);
+    this.addFrames(WALL_TEXTURE_KEY, AUTOTILE_FRAME_COUNT.blob);
+
+    graphics.clear();
+    for (let frame = 0; frame < AUTOTILE_FRAME_COUNT['4bit']; frame++) {
+      const mask = getAutotileMask('4bit', frame);
+      this.drawFrameBorder(
+        graphics,
+        frame * TILE_SIZE,
+        { fill: floor.colors.fill, rim: floor.colors.border },
+        floor.borderWidth,
+        {
+          north: !(mask & EDGE_BITS.north),
+          east: !(mask & EDGE_BITS.east),
+          south: !(mask & EDGE_BITS.south),
+          west: !(mask & EDGE_BITS.west),
+        }
+      );
+    }
+    graphics.generateTexture(FLOOR_TEXTURE_KEY, AUTOTILE_FRAME_COUNT['4bit'] * TILE_SIZE, TILE_SIZE);
+    this.addFrames(FLOOR_TEXTURE_KEY, AUTOTILE_FRAME_COUNT['4bit']);
+    graphics.destroy();
+  }
+
+  /**
+   * Текстуры построек — по одной на тип, размером с футпринт без поворота.
+   * Дверь — на южной стороне: по ней виден поворот постройки.
+   */
+  private createBuildingTextures() {
+    const { outlineWidth, inset, doorWidth } = BUILDING_CONFIG.texture;
+    const graphics = this.make.graphics({}, false);
+    BUILDING_DEFINITIONS.forEach(({ type, color, size }) => {
+      const width = size.width * TILE_SIZE;
+      const height = size.height * TILE_SIZE;
+      const dark = Display.Color.IntegerToColor(color).darken(30).color;
+      const light = Display.Color.IntegerToColor(color).lighten(15).color;
+      graphics
+        .clear()
+        .fillStyle(color)
+        .fillRect(0, 0, width, height)
+        .lineStyle(outlineWidth, dark)
+        .strokeRect(outlineWidth / 2, outlineWidth / 2, width - outlineWidth, height - outlineWidth)
+        .fillStyle(light)
+        .fillRect(inset, inset, width - inset * 2, height - inset * 2)
+        .fillStyle(dark)
+        .fillRect((width - doorWidth) / 2, height - inset, doorWidth, inset);
+      graphics.generateTexture(getBuildingTextureKey(type), width, height);
+    });
+    graphics.destroy();
+  }
+
+  /** Кадр автотайла: заливка и полосы цвета rim вдоль свободных сторон (после вызова активен цвет rim) */
+  private drawFrameBorder(
+    graphics: GameObjects.Graphics,
+    x: number,
+    colors: { fill: number; rim: number },
+    width: number,
+    open: { [side in 'north' | 'east' | 'south' | 'west']: boolean }
+  ) {
+    graphics.fillStyle(colors.fill).fillRect(x, 0, TILE_SIZE, TILE_SIZE).fillStyle(colors.rim);
+    if (open.north) graphics.fillRect(x, 0, TILE_SIZE, width);
+    if (open.south) graphics.fillRect(x, TILE_SIZE - width, TILE_SIZE, width);
+    if (open.west) graphics.fillRect(x, 0, width, TILE_SIZE);
+    if (open.east) graphics.fillRect(x + TILE_SIZE - width, 0, width, TILE_SIZE);
+  }
+
+  /** Разметить кадры TILE_SIZE × TILE_SIZE в сгенерированной текстуре (в ряд) — из них режутся миниатюры панели */
+  private addFrames(key: string, count: number) {
+    const texture = this.textures.get(key);
+    for (let frame = 0; frame < count; frame++) texture.add(frame, 0, frame * TILE_SIZE, 0, TILE_SIZE, TILE_SIZE);
+  }
+
+  /** Миниатюры панели инструментов — кадры текстур тайлов (data URL) */
+  private createToolbarThumbnails() {
+    useToolbarStore().setThumbnails(
+      Object.fromEntries(TOOLBAR_TILES.map(({ key, texture, frame }) => [key, this.textures.getBase64(texture, frame)]))
+    );
   }
 }
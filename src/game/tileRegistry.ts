@@ -0,0 +1,144 @@
+import type { AutotileMode } from '@/game/autotile';
+import {
+  AUTOTILE_CONFIG,
+  FLOOR_TEXTURE_KEY,
+  STAIRS_TEXTURE_KEY,
+  TILE_TEXTURE_KEY,
+  WALL_TEXTURE_KEY,
+} from '@/game/constants';
+
+export type TileCategory = 'ground' | 'structure' | 'stairs';
+
+/** Тип тайла игрока */
+export interface TileDefinition {
+  key: string;
+  /** Индекс в уровне (gid тайлмапа): пишется в сохранение — у существующих типов не меняется */
+  index: number;
+  /** Текстура тайлсета и кадр в ней: index = первый gid тайлсета + frame */
+  texture: typeof TILE_TEXTURE_KEY | typeof STAIRS_TEXTURE_KEY | typeof WALL_TEXTURE_KEY | typeof FLOOR_TEXTURE_KEY;
+  frame: number;
+  /** Автотайл: кадр выбирается по соседям того же типа (frame — кадр одиночного тайла) */
+  autotile?: AutotileMode;
+  name: string;
+  category: TileCategory;
+  /** По тайлу можно ходить */
+  walkable: boolean;
+  /** Тайл занимает клетку целиком (стена) */
+  solid: boolean;
+  /** На тайле можно ставить постройки (см. buildingRegistry.getPlacementError) */
+  buildable: boolean;
+  /** Есть в панели инструментов (stairsUp ставит только лестница сверху) */
+  inToolbar: boolean;
+}
+
+/**
+ * Реестр типов тайлов игрока.
+ *
+ * ЗАЧЕМ: Новый тип тайла — одна запись здесь: индексы, панель инструментов и хоткеи строятся из реестра.
+ *
+ * ВЗАИМОДЕЙСТВИЕ:
+ * - TILE_KEYS / TILE_INDEX (и типы TileIndexes / TileKeys) выводятся из реестра
+ * - Панель инструментов — TOOLBAR_TILES в порядке реестра, миниатюры — кадры текстур (PreloadScene)
+ */
+export const TILE_DEFINITIONS = [
+  {
+    key: 'grass0',
+    index: 0,
+    texture: TILE_TEXTURE_KEY,
+    frame: 0,
+    name: 'Трава',
+    category: 'ground',
+    walkable: true,
+    solid: false,
+    buildable: false,
+    inToolbar: true,
+  },
+  {
+    key: 'grass1',
+    index: 1,
+    texture: TILE_TEXTURE_KEY,
+    frame: 1,
+    name: 'Густая трава',
+    category: 'ground',
+    walkable: true,
+    solid: false,
+    buildable: false,
+    inToolbar: true,
+  },
+  {
+    key: 'stairsDown',
+    index: 10,
+    texture: STAIRS_TEXTURE_KEY,
+    frame: 0,
+    name: 'Лестница вниз',
+    category: 'stairs',
+    walkable: true,
+    solid: false,
+    buildable: false,
+    inToolbar: true,
+  },
+  {
+    key: 'stairsUp',
+    index: 11,
+    texture: STAIRS_TEXTURE_KEY,
+    frame: 1,
+    name: 'Лестница вверх',
+    category: 'stairs',
+    walkable: true,
+    solid: false,
+    buildable: false,
+    inToolbar: false,
+  },
+  {
+    key: 'wall',
+    index: AUTOTILE_CONFIG.wall.firstIndex,
+    texture: WALL_TEXTURE_KEY,
+    frame: 0,
+    autotile: 'blob',
+    name: 'Стена',
+    category: 'structure',
+    walkable: false,
+    solid: true,
+    buildable: false,
+    inToolbar: true,
+  },
+  {
+    key: 'floor',
+    index: AUTOTILE_CONFIG.floor.firstIndex,
+    texture: FLOOR_TEXTURE_KEY,
+    frame: 0,
+    autotile: '4bit',
+    name: 'Пол',
+    category: 'ground',
+    walkable: true,
+    solid: false,
+    buildable: true,
+    inToolbar: true,
+  },
+] as const satisfies TileDefinition[];
+
+type TileDefinitions = (typeof TILE_DEFINITIONS)[number];
+
+export const TILE_KEYS = Object.fromEntries(TILE_DEFINITIONS.map(({ index, key }) => [index, key])) as {
+  [D in TileDefinitions as D['index']]: D['key'];
+};
+export const TILE_INDEX = Object.fromEntries(TILE_DEFINITIONS.map(({ index, key }) => [key, index])) as {
+  [D in TileDefinitions as D['key']]: D['index'];
+};
+
+const definitionsByIndex = new Map<number, TileDefinitions>(TILE_DEFINITIONS.map(tile => [tile.index, tile]));
+
+/** Тип тайла по индексу; ландшафт и пустая клетка → undefined */
+export const getTileDefinition = (index: number) => definitionsByIndex.get(index);
+
+/** Набор автотайлинга типа тайла; обычный тайл или не тайл игрока → undefined */
+export const getAutotileMode = (index: number): AutotileMode | undefined => {
+  const tile = definitionsByIndex.get(index);
+  return tile && 'autotile' in tile ? tile.autotile : undefined;
+};
+
+/** Тайлы панели инструментов; hotkey — цифра 1–9 по порядку (дальше — без хоткея) */
+export const TOOLBAR_TILES = TILE_DEFINITIONS.filter(tile => tile.inToolbar).map((tile, i) => ({
+  ...tile,
+  hotkey: i < 9 ? String(i + 1) : undefined,
+}));
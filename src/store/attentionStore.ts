@@ -1,23 +1,54 @@
-import { debounce, throttle } from 'lodash-es';
+import { proxy } from 'comlink';
 import { nanoid } from 'nanoid';
+import { Result, ResultAsync, err, ok } from 'neverthrow';
 import { defineStore } from 'pinia';
+import { expectNever } from 'ts-expect';
 import { computed, shallowRef, triggerRef } from 'vue';
 
+import { type ActiveAttentionEvent, getEffectiveAttentionLimit } from '@/game/attentionEvents';
+import { TASK_CANCEL_CONFIG, TASK_PRIORITY_CONFIG } from '@/game/constants';
+import { getResearchEffects } from '@/game/researchTree';
+import { useConfirmStore } from '@/store/confirmStore';
+import { useGameClockStore } from '@/store/gameClockStore';
+import { getRefundRatios, getSpeedModifiers, getTaskTitle, resolveTaskType, runTaskHook } from '@/store/taskRegistry';
+import { useToastStore } from '@/store/toastStore';
+import { forecastTasks } from '@/utils/taskForecast';
+import { getSpeedBonus } from '@/utils/taskSpeed';
+import { formatDuration } from '@/utils/time';
+import type { DependencyError, TaskEngineEvent, TaskPools } from '@/workers/saveWorker';
 import { getSaveWorker } from '@/workers/saveWorkerProxy';
 
 /**
  * Входные данные для создания новой задачи.
  */
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
-interface TaskInput<P extends { [k in string]: unknown } = {}, T extends string = string> {
-  /** Цена внимания */
-  cost: number;
-  /** Длительность в мс */
-  duration: number;
-  /** Тип задачи */
+export interface TaskInput<P extends { [k in string]: unknown } = {}, T extends string = string> {
+  /** Цена внимания (по умолчанию — из описания типа) */
+  cost?: number;
+  /** Длительность в мс (по умолчанию — из описания типа) */
+  duration?: number;
+  /** Тип задачи (должен быть зарегистрирован в taskRegistry) */
   type: T;
   /** Payload специфичный для типа */
   payload: P;
+  /** Свой id — чтобы ссылаться на задачи внутри одной пачки addTasks (по умолчанию nanoid) */
+  id?: string;
+  /** id задач-предпосылок: задача не активируется, пока они не завершены */
+  dependsOn?: string[];
+  /** Отмена предпосылки: cascade — отменить и эту задачу (по умолчанию), orphan — забыть зависимость */
+  onPrerequisiteCancel?: 'cascade' | 'orphan';
+  /** Не стартовать раньше этого игрового времени (мс, см. useGameClockStore().gameTime) */
+  earliestStartAt?: number;
+  /**
+   * Повтор: после завершения в pending встаёт новый экземпляр с тем же payload.
+   * everyMs — пауза от завершения до следующего старта, times — сколько экземпляров осталось (без него — бесконечно).
+   */
+  recurrence?: { everyMs?: number; times?: number };
+  /**
+   * Ручной приоритет в очереди (resumed и pending): выше — раньше, равные — в порядке поступления.
+   * По умолчанию 0; сохраняется с задачей — переживает паузу, возобновление и повторы.
+   */
+  priority?: number;
 }
 /**
  * Базовая задача для сохранения в IndexedDB.
@@ -27,26 +58,108 @@ export interface TaskSaved<P extends { [k in string]: unknown } = {}, T extends
   extends TaskInput<P, T> {
   /** Уникальный идентификатор задачи */
   id: string;
-  /** Прогресс выполнения в миллисекундах */
+  /** Задание, в которое входит задача */
+  job?: TaskJob;
+  /** Цена внимания */
+  cost: number;
+  /** Длительность в мс */
+  duration: number;
+  /**
+   * Прогресс выполнения в мс работы при скорости ×1.
+   * Растёт на delta × rate (см. getProgressRate) — сохранённое значение не зависит от скорости.
+   */
   elapsedMs: number;
+  /** Цель задачи по политике отмены её типа — на ней остаётся возвращённая работа */
+  workKey?: string;
+}
+/**
+ * Задание — группа задач, созданных вместе (коридор из десятков клеток).
+ * Хранится в каждой задаче группы: принадлежность сохраняется вместе с пулами.
+ */
+export interface TaskJob {
+  id: string;
+  /** Название для UI */
+  title: string;
+  /** Число задач при создании */
+  size: number;
+  /** Суммарная длительность при создании (мс) — база общего прогресса */
+  totalMs: number;
+}
+/** Сводка задания для UI (по незавершённым задачам) */
+export interface JobSummary extends TaskJob {
+  tasks: TaskSaved[];
+  /** Завершено задач */
+  done: number;
+  /** Общий прогресс по работе (0.0 - 1.0) */
+  progress: number;
+  /** Внимание, занятое активными задачами задания */
+  activeCost: number;
+  /** Все задачи на паузе */
+  isPaused: boolean;
+  /** Прогноз завершения всего задания (мс) или null, если часть задач не стартует */
+  etaMs: number | null;
 }
+/** Запись журнала отмен */
+export interface CancellationRecord {
+  /** Игровое время отмены */
+  at: number;
+  taskId: string;
+  title: string;
+  /** Прогресс на момент отмены (0.0 - 1.0) */
+  progress: number;
+  /** Возвращённая работа (мс при скорости ×1), осталась на цели задачи */
+  refundedMs: number;
+  workKey?: string;
+}
+
+/** Сколько последних отмен хранит журнал */
+const CANCELLATION_LOG_SIZE = 50;
+
+/**
+ * Проверить повтор задачи.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Повтор задачи нулевой длительности завершался бы бесконечно в одном тике → invalid_recurrence.
+ */
+const checkRecurrence = (task: TaskSaved) => {
+  const { recurrence, duration } = task;
+  if (!recurrence) return ok(task);
+  const { everyMs = 0, times = 1 } = recurrence;
+  if (duration <= 0 || everyMs < 0 || !Number.isInteger(times) || times < 1)
+    return err({ type: 'invalid_recurrence' as const, id: task.id });
+  return ok(task);
+};
 
-const MINIMAL_COST = 1 satisfies TaskInput['cost'];
 /**
  * Стор состояния внимания подземелья.
  */
 export const useAttentionStore = defineStore('attention', () => {
   const attentionCoefficient = shallowRef(0);
+  const attentionEvents = shallowRef<ActiveAttentionEvent[]>([]);
+  const unlockedResearch = shallowRef<string[]>([]);
+  const researchEffects = computed(() => getResearchEffects(unlockedResearch.value));
+  const attentionLimit = computed(() =>
+    getEffectiveAttentionLimit(attentionCoefficient.value + researchEffects.value.attentionBonus, attentionEvents.value)
+  );
   const usedAttention = computed(() =>
-    attentionCoefficient.value > 0 ? useActiveTasksStore().totalCost / attentionCoefficient.value : 0
+    attentionLimit.value > 0 ? useActiveTasksStore().totalCost / attentionLimit.value : 0
   );
   const freeAttention = computed(() => 1 - usedAttention.value);
   return {
-    /** Коэффициент внимания (int, прокачивается). */
+    /** Базовый коэффициент внимания (int) — без прибавки от исследований */
     attentionCoefficient,
+    /** Открытые исследования (проекция движка задач) */
+    unlockedResearch,
+    /** Суммарные эффекты открытых исследований: прибавка к коэффициенту, жадный проход и его задержка */
+    researchEffects,
+    /** Идущие события внимания (проекция движка задач) */
+    attentionEvents,
+    /**
+     * Лимит внимания с учётом исследований и событий.
+     * Формула: floor((attentionCoefficient + attentionBonus) × (1 - Σreserve) + Σboost)
+     */
+    attentionLimit,
     /**
      * Доля занятого внимания (0.0 - 1.0).
-     * Формула: Σ(task.cost) / attentionCoefficient
+     * Формула: Σ(task.cost) / attentionLimit
      */
     usedAttention,
     /**
@@ -54,22 +167,34 @@ export const useAttentionStore = defineStore('attention', () => {
      * Формула: 1 - usedAttention
      */
     freeAttention,
+    /**
+     * Множитель скорости всех активных задач за свободное внимание.
+     * Формула: 1 + freeAttentionBonus × freeAttention
+     */
+    speedBonus: computed(() => getSpeedBonus(freeAttention.value)),
+    /**
+     * Скорость выполнения задачи (мс прогресса за мс игрового времени).
+     * Считает движок задач в воркере: speedModifier типа × speedBonus. Неактивная задача — 0.
+     */
+    getProgressRate: ({ id }: Pick<TaskSaved, 'id'>) => useActiveTasksStore().getRate(id),
     canFit: ({ cost }: Pick<TaskSaved, 'cost'>) => {
-      const coefficient = attentionCoefficient.value;
-      if (coefficient <= 0) return false;
-      return freeAttention.value >= cost / coefficient;
+      const limit = attentionLimit.value;
+      if (limit <= 0) return false;
+      return freeAttention.value >= cost / limit;
     },
     /**
      * Установить коэффициент внимания.
-     * ГРАНИЧНЫЕ СЛУЧАИ: Вызывает tryFillPool — могут активироваться ожидающие задачи.
+     * ГРАНИЧНЫЕ СЛУЧАИ: Движок задач сам заполнит пул — могут активироваться ожидающие задачи.
      */
     setAttentionCoefficient: (value: number) => {
       if (attentionCoefficient.value === value) return;
-      const needUpdate = value > attentionCoefficient.value;
       attentionCoefficient.value = value;
       void getSaveWorker().setAttentionLimit(value);
-      if (needUpdate) useTaskManagerStore().tryFillPool();
     },
+    /** Заменить список событий снимком движка */
+    setAttentionEvents: (events: ActiveAttentionEvent[]) => void (attentionEvents.value = events),
+    /** Заменить список открытых исследований снимком движка */
+    setUnlockedResearch: (unlocked: string[]) => void (unlockedResearch.value = unlocked),
     /**
      * Загрузить лимит внимания из воркера.
      * ВЗАИМОДЕЙСТВИЕ: Интеграция с IndexedDB (позже).
@@ -81,10 +206,11 @@ export const useAttentionStore = defineStore('attention', () => {
 });
 
 /**
- * Стор активных задач.
+ * Стор активных задач (проекция пула движка).
  */
 const useActiveTasksStore = defineStore('activeTasks', () => {
   const tasks = shallowRef(new Map<string, TaskSaved>());
+  const rates = shallowRef(new Map<string, number>());
   return {
     /** Активные задачи */
     tasks: computed(() => Array.from(tasks.value.values())),
@@ -95,29 +221,25 @@ const useActiveTasksStore = defineStore('activeTasks', () => {
       tasks.value.forEach(task => (totalCost += task.cost));
       return totalCost;
     }),
-    isEmpty: computed(() => !tasks.value.size),
-    /** Добавить задачу в активный пул */
-    add: (task: TaskSaved) => void (tasks.value.set(task.id, task) && triggerRef(tasks)),
-    /** Удалить задачу из активного пула */
-    remove: (taskId: string) => void (tasks.value.delete(taskId) && triggerRef(tasks)),
     /** Получить задачу по id */
     get: (taskId: string) => tasks.value.get(taskId),
-    /** Проверить наличие задачи */
-    has: (taskId: string) => tasks.value.has(taskId),
-    /**
-     * Обновить прогресс всех активных задач.
-     * @param delta мс с последнего тика
-     * @returns ids выполненных задач. Их нужно корректно завершить.
-     */
-    tick: (delta: number) => {
-      if (delta <= 0) return [];
-      const completed: string[] = [];
-      tasks.value.forEach(task => {
-        task.elapsedMs += delta;
-        if (task.elapsedMs >= task.duration) completed.push(task.id);
+    /** Скорость задачи из последнего тика движка */
+    getRate: (taskId: string) => rates.value.get(taskId) ?? 0,
+    /** Заменить пул снимком движка */
+    set: (snapshot: TaskSaved[]) => {
+      tasks.value = new Map(snapshot.map(task => [task.id, task]));
+      rates.value = new Map(Array.from(rates.value).filter(([id]) => tasks.value.has(id)));
+    },
+    /** Применить прогресс тика движка */
+    applyProgress: (progress: Array<{ id: string; elapsedMs: number; rate: number }>) => {
+      progress.forEach(({ id, elapsedMs, rate }) => {
+        const task = tasks.value.get(id);
+        if (!task) return;
+        task.elapsedMs = elapsedMs;
+        rates.value.set(id, rate);
       });
       triggerRef(tasks);
-      return completed;
+      triggerRef(rates);
     },
   };
 });
@@ -127,7 +249,7 @@ const useActiveTasksStore = defineStore('activeTasks', () => {
 // ============================================================
 
 /**
- * Стор приостановленных задач.
+ * Стор приостановленных задач (проекция пула движка).
  *
  * ЗАЧЕМ: Пауза ОСВОБОЖДАЕТ внимание — тактическое управление очередью.
  * Прогресс сохраняется, elapsedMs не увеличивается.
@@ -138,44 +260,23 @@ const usePausedTasksStore = defineStore('pausedTasks', () => {
   return {
     /** Приостановленные задачи */
     tasks: computed(() => Array.from(tasks.value.values())),
-    /** Добавить задачу на паузу */
-    add: (task: TaskSaved) => void (tasks.value.set(task.id, task) && triggerRef(tasks)),
-    /** Удалить задачу с паузы (для resume) */
-    remove: (taskId: string) => void (tasks.value.delete(taskId) && triggerRef(tasks)),
     /** Получить задачу по id */
     get: (taskId: string) => tasks.value.get(taskId),
+    /** Заменить пул снимком движка */
+    set: (snapshot: TaskSaved[]) => void (tasks.value = new Map(snapshot.map(task => [task.id, task]))),
   };
 });
 
 /**
- * Стор очереди возвращённых из паузы задач.
+ * Стор очереди возвращённых из паузы задач (проекция пула движка).
  */
 const useResumedTasksStore = defineStore('resumedTasks', () => {
   const tasks = shallowRef<TaskSaved[]>([]);
   return {
-    /** Очередь задач в порядке FIFO */
+    /** Очередь задач в порядке приоритета */
     tasks,
-    /** Первая задача в очереди (для tryFillPool) */
-    first: computed(() => tasks.value[0]),
-    /** Добавить задачу в конец очереди */
-    push: (task: TaskSaved) => {
-      tasks.value.push(task);
-      triggerRef(tasks);
-    },
-    /** Извлечь первую задачу из очереди */
-    shift: () => {
-      const task = tasks.value.shift();
-      triggerRef(tasks);
-      return task;
-    },
-    /** Удалить задачу по id (для cancel) */
-    remove: (taskId: string) => {
-      const index = tasks.value.findIndex(t => t.id === taskId);
-      if (index < 0) return false;
-      const sucsess = Boolean(tasks.value.splice(index, 1).length);
-      triggerRef(tasks);
-      return sucsess;
-    },
+    /** Заменить очередь снимком движка */
+    set: (snapshot: TaskSaved[]) => void (tasks.value = snapshot),
   };
 });
 
@@ -184,38 +285,21 @@ const useResumedTasksStore = defineStore('resumedTasks', () => {
 // ============================================================
 
 /**
- * Стор очереди новых задач.
+ * Стор очереди новых задач (проекция пула движка).
  *
- * ЗАЧЕМ: FIFO очередь для справедливого распределения внимания.
+ * ЗАЧЕМ: Очередь для справедливого распределения внимания.
+ * Очередь отсортирована по приоритету задач (TaskSaved.priority), равные — FIFO;
+ * игрок задаёт приоритет или переставляет задачи (перестановка подгоняет приоритет под соседей).
  * resumed имеет приоритет над pending (уже начатые важнее).
  * Array для сохранения порядка.
  */
 const usePendingTasksStore = defineStore('pendingTasks', () => {
   const tasks = shallowRef<TaskSaved[]>([]);
   return {
-    /** Очередь задач в порядке FIFO */
+    /** Очередь задач в порядке приоритета */
     tasks,
-    /** Первая задача в очереди (для tryFillPool) */
-    first: computed(() => tasks.value[0]),
-    /** Добавить задачу в конец очереди */
-    push: (task: TaskSaved) => {
-      tasks.value.push(task);
-      triggerRef(tasks);
-    },
-    /** Извлечь первую задачу из очереди */
-    shift: () => {
-      const task = tasks.value.shift();
-      triggerRef(tasks);
-      return task;
-    },
-    /** Удалить задачу по id (для cancel) */
-    remove: (taskId: string) => {
-      const index = tasks.value.findIndex(t => t.id === taskId);
-      if (index < 0) return false;
-      const sucsess = Boolean(tasks.value.splice(index, 1).length);
-      triggerRef(tasks);
-      return sucsess;
-    },
+    /** Заменить очередь снимком движка */
+    set: (snapshot: TaskSaved[]) => void (tasks.value = snapshot),
   };
 });
 
@@ -224,271 +308,243 @@ const usePendingTasksStore = defineStore('pendingTasks', () => {
 // ============================================================
 
 /**
- * Координатор системы задач.
+ * Координатор системы задач на main thread.
  *
- * ЗАЧЕМ: Единая точка входа для операций с задачами.
- * Управляет перемещением между пулами, заполнением активного пула и таймером тиков.
+ * ЗАЧЕМ: Задачи исполняет движок в saveWorker — он единственный владелец пулов,
+ * тиков, заполнения пула и жадного прохода. Main thread и воркер не могут разойтись,
+ * а тики идут, даже когда main thread занят.
  *
- * АЛГОРИТМ заполнения:
- * 1. Последовательный (FIFO): сначала resumed, затем pending
- * 2. Жадный (по таймеру 30с): если первая не влезает — ищем меньшие
+ * АЛГОРИТМ:
+ * 1. Команды (добавить, пауза, отмена…) уходят в воркер
+ * 2. Воркер присылает события: снимок пулов, прогресс тика, хуки жизненного цикла, события внимания, исследования
+ * 3. Сторы пулов — read-only проекции снимков; хуки типов задач выполняются здесь
  */
 const useTaskManagerStore = defineStore('taskManager', () => {
-  const completeTask = (taskId: string) => {
-    const activeStore = useActiveTasksStore();
-    if (!activeStore.has(taskId)) return;
-    removeFromActive(taskId);
-    void getSaveWorker().removeTask({ id: taskId, from: 'active' });
-    tryFillPool();
-  };
-
-  let tickInterval: ReturnType<typeof setInterval> | null = null;
-  const stopTicking = () => {
-    if (!tickInterval) return;
-    clearInterval(tickInterval);
-    tickInterval = null;
+  /** Задачи незарегистрированных типов или с битым payload — не участвуют в работе */
+  const quarantinedTasks = shallowRef<TaskSaved[]>([]);
+  /** Журнал отмен (последние CANCELLATION_LOG_SIZE, новые в конце) */
+  const cancellationLog = shallowRef<CancellationRecord[]>([]);
+
+  const applySnapshot = (pools: TaskPools) => {
+    useActiveTasksStore().set(pools.active);
+    usePausedTasksStore().set(pools.paused);
+    useResumedTasksStore().set(pools.resumed);
+    usePendingTasksStore().set(pools.pending);
+    quarantinedTasks.value = pools.quarantine;
   };
-  const updateProgressInWorker = throttle(async (updates: Array<{ id: string; elapsedMs: number }>) => {
-    if (!updates.length) return;
-    void getSaveWorker().updateActiveProgress(updates);
-  }, 1000);
 
-  const startTicking = () => {
-    if (tickInterval) return;
-    let lastTickTime = Date.now();
-    tickInterval = setInterval(() => {
-      const now = Date.now();
-      const delta = now - lastTickTime;
-      lastTickTime = now;
-
-      const activeStore = useActiveTasksStore();
-      const completed = activeStore.tick(delta);
-      completed.forEach(completeTask);
-      updateProgressInWorker(
-        activeStore.tasks.map(task => ({
-          id: task.id,
-          elapsedMs: task.elapsedMs,
-        }))
-      );
-    }, 1000);
+  /** Объявить начало или конец события внимания тостом */
+  const announceAttentionEvent = ({ phase, event }: Extract<TaskEngineEvent, { type: 'attentionEvent' }>) =>
+    void useToastStore().show(
+      phase === 'start'
+        ? { icon: event.kind === 'crisis' ? 'warning' : 'success', title: event.title, description: event.description }
+        : { icon: 'info', title: `Закончилось: ${event.title}` }
+    );
+
+  /**
+   * Записать отмены в журнал и сообщить тостом (каскад и задание — одним тостом).
+   * ВЗАИМОДЕЙСТВИЕ: Сколько работы вернулось, решает движок по cancelPolicy типа (getRefundRatios).
+   */
+  const logCancellations = (cancelled: Extract<TaskEngineEvent, { type: 'cancellation' }>['cancelled']) => {
+    const at = useGameClockStore().gameTime;
+    const records = cancelled.map(
+      ({ task, refundedMs }) =>
+        ({
+          at,
+          taskId: task.id,
+          title: getTaskTitle(task),
+          progress: task.duration > 0 ? task.elapsedMs / task.duration : 0,
+          refundedMs,
+          workKey: task.workKey,
+        }) satisfies CancellationRecord
+    );
+    cancellationLog.value = [...cancellationLog.value, ...records].slice(-CANCELLATION_LOG_SIZE);
+
+    const refundedMs = records.reduce((sum, record) => sum + record.refundedMs, 0);
+    const hadProgress = records.some(record => record.progress > 0);
+    useToastStore().show({
+      icon: 'info',
+      title: records.length === 1 ? `Отменено: ${records[0].title}` : `Отменено задач: ${records.length}`,
+      description:
+        refundedMs > 0
+          ? `Возвращено работы: ${formatDuration(refundedMs)} — продолжится с этого места`
+          : hadProgress
+            ? 'Прогресс потерян'
+            : undefined,
+    });
   };
 
-  const greedyPassScheduled = shallowRef(false);
-  const scheduleGreedyPass = () => {
-    greedyPassScheduled.value = true;
-    setTimeout(() => {
-      const { canFit } = useAttentionStore();
-      if (!canFit({ cost: MINIMAL_COST })) return;
-
-      const activeStore = useActiveTasksStore();
-      const activate = (task: TaskSaved, from: 'resumed' | 'pending') => {
-        const wasEmpty = activeStore.isEmpty;
-        activeStore.add(task);
-        void getSaveWorker().moveTask({ id: task.id, from, to: 'active' });
-        if (wasEmpty) startTicking();
-      };
-
-      const resumedStore = useResumedTasksStore();
-      for (const task of resumedStore.tasks) {
-        if (!canFit(task)) continue;
-        resumedStore.remove(task.id);
-        activate(task, 'resumed');
-      }
-      if (!canFit({ cost: MINIMAL_COST })) return;
-
-      const pendingStore = usePendingTasksStore();
-      for (const task of pendingStore.tasks) {
-        if (!canFit(task)) continue;
-        pendingStore.remove(task.id);
-        activate(task, 'pending');
+  const applyEvents = (events: TaskEngineEvent[]) =>
+    events.forEach(event => {
+      switch (event.type) {
+        case 'snapshot':
+          return applySnapshot(event.pools);
+        case 'progress':
+          return useActiveTasksStore().applyProgress(event.progress);
+        case 'hook':
+          return runTaskHook(event.hook, event.task);
+        case 'clock':
+          return useGameClockStore().syncGameTime(event.gameTime);
+        case 'attention':
+          return useAttentionStore().setAttentionEvents(event.events);
+        case 'attentionEvent':
+          return announceAttentionEvent(event);
+        case 'research':
+          return useAttentionStore().setUnlockedResearch(event.unlocked);
+        case 'cancellation':
+          return logCancellations(event.cancelled);
+        default:
+          expectNever(event);
       }
-
-      greedyPassScheduled.value = false;
-    }, 30000);
-  };
-
-  const greedyPassEnabled = shallowRef(false);
-  const tryFillPool = debounce(() => {
-    console.log('in tryFillPool');
-
-    const { canFit } = useAttentionStore();
-    if (!canFit({ cost: MINIMAL_COST })) return;
-
-    const activeStore = useActiveTasksStore();
-    const activate = (task: TaskSaved, from: 'resumed' | 'pending') => {
-      const wasEmpty = activeStore.isEmpty;
-      activeStore.add(task);
-      void getSaveWorker().moveTask({ id: task.id, from, to: 'active' });
-      if (wasEmpty) startTicking();
-    };
-
-    // 1. Сначала возвращённые из паузы (приоритет)
-    const resumedStore = useResumedTasksStore();
-    console.log('tryFillPool resumedStore', resumedStore.first);
-    while (resumedStore.first && canFit(resumedStore.first)) {
-      const task = resumedStore.shift();
-      if (task) activate(task, 'resumed');
-    }
-    if (!canFit({ cost: MINIMAL_COST })) return;
-
-    // 2. Затем pending
-    const pendingStore = usePendingTasksStore();
-    console.log('tryFillPool pendingStore', pendingStore.first);
-    while (pendingStore.first && canFit(pendingStore.first)) {
-      const task = pendingStore.shift();
-      if (task) activate(task, 'pending');
-    }
-    if (!canFit({ cost: MINIMAL_COST })) return;
-
-    // 3. Если первая задача не влезает — запустить таймер
-    const needGreedyPass =
-      greedyPassEnabled.value && !greedyPassScheduled.value && (resumedStore.first || pendingStore.first);
-    if (needGreedyPass) scheduleGreedyPass();
-  }, 100);
-
-  const removeFromActive = (taskId: string) => {
-    const activeStore = useActiveTasksStore();
-    activeStore.remove(taskId);
-    if (activeStore.isEmpty) stopTicking();
-  };
+    });
+
+  /** Создать задачи; с jobTitle — объединить их в задание */
+  const createTasks = (inputs: TaskInput[], jobTitle?: string) =>
+    Result.combine(
+      inputs.map(
+        ({ id, type, cost, duration, payload, dependsOn, onPrerequisiteCancel, earliestStartAt, recurrence }) =>
+          resolveTaskType({ type, payload })
+            .map(({ defaults, cancelPolicy }) => {
+              const task = {
+                id: id ?? nanoid(),
+                type,
+                cost: cost ?? defaults.cost,
+                elapsedMs: 0,
+                duration: duration ?? defaults.duration,
+                payload,
+                dependsOn,
+                onPrerequisiteCancel,
+                earliestStartAt,
+                recurrence,
+              } satisfies TaskSaved;
+              return cancelPolicy ? { ...task, workKey: cancelPolicy.workKey(task) } : task;
+            })
+            .andThen(checkRecurrence)
+      )
+    )
+      .map(tasks => {
+        if (jobTitle === undefined) return tasks;
+        const job = {
+          id: nanoid(),
+          title: jobTitle,
+          size: tasks.length,
+          totalMs: tasks.reduce((sum, task) => sum + task.duration, 0),
+        } satisfies TaskJob;
+        return tasks.map(task => ({ ...task, job }));
+      })
+      .asyncAndThen(tasks =>
+        ResultAsync.fromSafePromise<DependencyError | undefined>(getSaveWorker().addTasks({ tasks })).andThen(error =>
+          error ? err(error) : ok(tasks)
+        )
+      );
 
   return {
-    /** Включить жадный проход (прокачивается) */
-    greedyPassEnabled,
+    /** Карантин: задачи, которые нельзя исполнить (тип не зарегистрирован, payload не по схеме) */
+    quarantinedTasks,
+    /** Журнал отмен: что отменено и сколько работы вернулось */
+    cancellationLog,
     /**
-     * Создать новую задачу и добавить в pending.
-     * ГРАНИЧНЫЕ СЛУЧАИ: Вызывает tryFillPool — может сразу стать активной.
+     * Создать пачку задач и добавить в pending (одной командой воркеру).
+     * ЗАЧЕМ: Связанные задачи ссылаются друг на друга через dependsOn по заранее заданным id.
+     * ГРАНИЧНЫЕ СЛУЧАИ:
+     * - Неизвестный тип, payload не по схеме, дубликат id, неизвестная предпосылка или цикл → err, не создаётся ни одна
+     * - Готовые задачи могут сразу стать активными
      */
-    addTask: async ({ type, cost, duration, payload }: TaskInput) => {
-      console.log('addTask', { type, cost, duration, payload });
-      const task = {
-        id: nanoid(),
-        type,
-        cost,
-        elapsedMs: 0,
-        duration,
-        payload,
-      } satisfies TaskSaved;
-      usePendingTasksStore().push(task);
-      void getSaveWorker().pushTasks({ tasks: [task] });
-      console.log('addTask pushed');
-      tryFillPool();
-      console.log('addTask tryFillPool runned');
-      return task;
-    },
+    addTasks: (inputs: TaskInput[]) => createTasks(inputs),
+    /** Создать одну задачу (см. addTasks) */
+    addTask: (input: TaskInput) => createTasks([input]).map(([task]) => task),
+    /**
+     * Создать задание: пачку задач с общим прогрессом и управлением (см. addTasks).
+     * @returns задачи задания (job — в каждой)
+     */
+    addJob: ({ title, tasks }: { title: string; tasks: TaskInput[] }) => createTasks(tasks, title),
+    /**
+     * Поставить задание на паузу: active, resumed и pending задачи → paused.
+     * ГРАНИЧНЫЕ СЛУЧАИ: Ещё не начатые (pending) после возобновления идут в resumed, как и остальные.
+     */
+    pauseJob: (jobId: string) => void getSaveWorker().pauseJob({ jobId }),
+    /** Возобновить задание: все его paused задачи → resumed */
+    resumeJob: (jobId: string) => void getSaveWorker().resumeJob({ jobId }),
+    /** Отменить все задачи задания (зависимые с cascade — следом) */
+    cancelJob: (jobId: string) => void getSaveWorker().cancelJob({ jobId }),
+    /** Переставить задачи задания в очередях на позицию toIndex, сохраняя их порядок */
+    reorderJob: ({ jobId, toIndex }: { jobId: string; toIndex: number }) =>
+      void getSaveWorker().reorderJob({ jobId, toIndex }),
     /**
      * Приостановить активную задачу.
-     * АЛГОРИТМ: active → paused, освобождает внимание, вызывает tryFillPool.
+     * АЛГОРИТМ: active → paused, освобождает внимание.
      */
-    pauseTask: (taskId: string) => {
-      const activeStore = useActiveTasksStore();
-      const task = activeStore.get(taskId);
-      if (!task) return;
-      removeFromActive(taskId);
-      usePausedTasksStore().add(task);
-      void getSaveWorker().moveTask({ id: taskId, from: 'active', to: 'paused' });
-      tryFillPool();
-    },
+    pauseTask: (taskId: string) => void getSaveWorker().pauseTask({ id: taskId }),
     /**
      * Возобновить приостановленную задачу.
-     * АЛГОРИТМ: paused → resumed (в конец), вызывает tryFillPool.
+     * АЛГОРИТМ: paused → resumed (в конец).
      */
-    resumeTask: (taskId: string) => {
-      const pausedStore = usePausedTasksStore();
-      const task = pausedStore.get(taskId);
-      if (!task) return;
-      pausedStore.remove(taskId);
-      useResumedTasksStore().push(task);
-      void getSaveWorker().moveTask({ id: taskId, from: 'paused', to: 'resumed' });
-      tryFillPool();
-    },
+    resumeTask: (taskId: string) => void getSaveWorker().resumeTask({ id: taskId }),
     /**
      * Поставить на паузу задачу из очереди (resumed).
-     * АЛГОРИТМ: resumed → paused, не вызывает tryFillPool (не освобождает внимание).
+     * АЛГОРИТМ: resumed → paused, внимание не освобождается.
      */
-    pauseResumedTask: (taskId: string) => {
-      const resumedStore = useResumedTasksStore();
-      const task = resumedStore.tasks.find(t => t.id === taskId);
-      if (!task) return;
-      resumedStore.remove(taskId);
-      usePausedTasksStore().add(task);
-      void getSaveWorker().moveTask({ id: taskId, from: 'resumed', to: 'paused' });
-    },
-    /**
-     * Отменить задачу из любого пула.
-     * ГРАНИЧНЫЕ СЛУЧАИ: Если была active — вызывает tryFillPool.
-     */
-    cancelTask: (taskId: string) => {
-      const activeStore = useActiveTasksStore();
-      if (activeStore.has(taskId)) {
-        removeFromActive(taskId);
-        void getSaveWorker().removeTask({ id: taskId, from: 'active' });
-        tryFillPool();
-        return;
-      }
-      const resumedStore = useResumedTasksStore();
-      if (resumedStore.tasks.find(t => t.id === taskId)) {
-        resumedStore.remove(taskId);
-        void getSaveWorker().removeTask({ id: taskId, from: 'resumed' });
-        return;
-      }
-      const pendingStore = usePendingTasksStore();
-      if (pendingStore.tasks.find(t => t.id === taskId)) {
-        pendingStore.remove(taskId);
-        void getSaveWorker().removeTask({ id: taskId, from: 'pending' });
-        return;
-      }
-      const pausedStore = usePausedTasksStore();
-      if (pausedStore.get(taskId)) {
-        pausedStore.remove(taskId);
-        void getSaveWorker().removeTask({ id: taskId, from: 'paused' });
-      }
-    },
+    pauseResumedTask: (taskId: string) => void getSaveWorker().pauseResumedTask({ id: taskId }),
     /**
-     * Завершить активную задачу.
-     * АЛГОРИТМ: Удалить из active, вызвать tryFillPool.
+     * Переставить задачу в очереди (resumed или pending).
+     * ЗАЧЕМ: Заполнение пула и жадный проход идут по порядку очереди; приоритет задачи подгоняется под новых соседей,
+     * поэтому место сохраняется, когда в очередь приходят новые задачи.
      */
-    completeTask,
+    reorderTask: ({ taskId, toIndex }: { taskId: string; toIndex: number }) =>
+      void getSaveWorker().reorderTask({ id: taskId, toIndex }),
     /**
-     * Найти задачу в любом пуле.
-     * @returns TaskRuntime или undefined
+     * Задать приоритет задачи (TASK_PRIORITY_CONFIG.min..max).
+     * ГРАНИЧНЫЕ СЛУЧАИ: Задача в очереди встаёт в конец своего нового приоритета.
      */
-    getTask: (taskId: string) => {
-      const activeStore = useActiveTasksStore();
-      const active = activeStore.get(taskId);
-      if (active) return active;
-      const pausedStore = usePausedTasksStore();
-      const paused = pausedStore.get(taskId);
-      if (paused) return paused;
-      const resumedStore = useResumedTasksStore();
-      const resumed = resumedStore.tasks.find(t => t.id === taskId);
-      if (resumed) return resumed;
-      const pendingStore = usePendingTasksStore();
-      const pending = pendingStore.tasks.find(t => t.id === taskId);
-      if (pending) return pending;
-      return undefined;
-    },
+    setTaskPriority: ({ taskId, priority }: { taskId: string; priority: number }) =>
+      void getSaveWorker().setTaskPriority({
+        id: taskId,
+        priority: Math.max(TASK_PRIORITY_CONFIG.min, Math.min(TASK_PRIORITY_CONFIG.max, priority)),
+      }),
     /**
-     * Попытка заполнить активный пул (debounced 100ms).
-     * ЗАЧЕМ: Дедупликация при множественных изменениях.
+     * Отменить задачу из любого пула.
+     * ГРАНИЧНЫЕ СЛУЧАИ:
+     * - Задача из карантина просто удаляется (хуков её типа нет)
+     * - Зависимые задачи: cascade — отменяются следом, orphan — становятся свободными
      */
-    tryFillPool,
+    cancelTask: (taskId: string) => void getSaveWorker().cancelTask({ id: taskId }),
     /**
-     * Загрузить задачи из воркера при старте приложения.
+     * Запустить движок задач и подписаться на его события.
+     *
+     * ГРАНИЧНЫЕ СЛУЧАИ:
+     * - Задача не проходит проверку типа/payload → карантин, остальные грузятся как обычно
+     * - Задача из карантина снова валидна (тип вернули) → на паузу, игрок решит сам
+     * - Пока игра была закрыта, время шло: движок догоняет его, здесь — только сводка
      */
     loadFromWorker: async () => {
-      const tasks = await getSaveWorker().getAllTasks();
-      const activeStore = useActiveTasksStore();
-      const pausedStore = usePausedTasksStore();
-      const resumedStore = useResumedTasksStore();
-      const pendingStore = usePendingTasksStore();
-
-      tasks.active.forEach(task => activeStore.add(task));
-      tasks.paused.forEach(task => pausedStore.add(task));
-      tasks.resumed.forEach(task => resumedStore.push(task));
-      tasks.pending.forEach(task => pendingStore.push(task));
-
-      if (tasks.active.length > 0) startTicking();
+      const worker = getSaveWorker();
+      // Лимит внимания нужен для проекции свободного внимания
+      const [tasks] = await Promise.all([worker.getAllTasks(), useAttentionStore().loadFromWorker()]);
+
+      const isInvalid = (task: TaskSaved) =>
+        resolveTaskType(task).match(
+          () => false,
+          error => {
+            console.warn('[TaskManager] task quarantined:', task.id, error);
+            return true;
+          }
+        );
+      const quarantine = [...tasks.active, ...tasks.paused, ...tasks.resumed, ...tasks.pending]
+        .filter(isInvalid)
+        .map(task => task.id);
+      const release = tasks.quarantine.filter(task => resolveTaskType(task).isOk()).map(task => task.id);
+
+      const { gapMs, completed } = await worker.startTaskEngine(
+        { quarantine, release, modifiers: getSpeedModifiers(), refunds: getRefundRatios() },
+        proxy(applyEvents)
+      );
+      if (!completed) return;
+      useToastStore().show({
+        icon: 'info',
+        title: 'Пока вас не было',
+        description: `Прошло ${formatDuration(gapMs)}. Завершено задач: ${completed}`,
+        timeout: 10000,
+      });
     },
   };
 });
@@ -510,26 +566,145 @@ export const useTasksStore = defineStore('tasks', () => {
   const pausedStore = usePausedTasksStore();
   const managerStore = useTaskManagerStore();
 
+  /** Все незавершённые задачи по id (для разрешения dependsOn) */
+  const tasksById = computed(
+    () =>
+      new Map(
+        [
+          ...activeStore.tasks,
+          ...resumedStore.tasks,
+          ...pendingStore.tasks,
+          ...pausedStore.tasks,
+          ...managerStore.quarantinedTasks,
+        ].map(task => [task.id, task])
+      )
+  );
+
+  const attentionStore = useAttentionStore();
+  const clockStore = useGameClockStore();
+  const forecast = computed(() =>
+    forecastTasks({
+      active: activeStore.tasks,
+      resumed: resumedStore.tasks,
+      pending: pendingStore.tasks,
+      parked: [...pausedStore.tasks, ...managerStore.quarantinedTasks],
+      attentionCoefficient: attentionStore.attentionLimit,
+      greedyPassEnabled: attentionStore.researchEffects.greedyPassEnabled,
+      greedyPassDelay: attentionStore.researchEffects.greedyPassDelay,
+      gameTime: clockStore.gameTime,
+      speedModifiers: getSpeedModifiers(),
+    })
+  );
+
+  /**
+   * Спросить подтверждение, если среди отменяемых задач есть дорогие или далеко продвинутые.
+   * @returns можно ли отменять
+   */
+  const confirmCancel = async (tasks: TaskSaved[], subject: string) => {
+    const notable = tasks.filter(
+      task =>
+        task.cost >= TASK_CANCEL_CONFIG.confirmCost ||
+        task.elapsedMs / task.duration >= TASK_CANCEL_CONFIG.confirmProgress
+    );
+    if (!notable.length) return true;
+    const progress = Math.max(...notable.map(task => Math.floor((task.elapsedMs / task.duration) * 100) || 0));
+    const cost = Math.max(...notable.map(task => task.cost));
+    return useConfirmStore().ask({
+      title: `Отменить ${subject}?`,
+      description: `Выполнено до ${progress}%, внимание до ${cost}. Сколько работы вернётся, зависит от типа задачи; зависимые задачи могут отмениться следом.`,
+      confirmLabel: 'Отменить',
+    });
+  };
+
+  /** Задания по незавершённым задачам (завершённое задание исчезает вместе с последней задачей) */
+  const jobs = computed(() => {
+    const groups = new Map<string, { job: TaskJob; tasks: TaskSaved[] }>();
+    for (const task of [...activeStore.tasks, ...resumedStore.tasks, ...pendingStore.tasks, ...pausedStore.tasks]) {
+      if (!task.job) continue;
+      const group = groups.get(task.job.id) ?? { job: task.job, tasks: [] };
+      group.tasks.push(task);
+      groups.set(task.job.id, group);
+    }
+    return Array.from(groups.values(), ({ job, tasks }) => {
+      const remainingMs = tasks.reduce((sum, task) => sum + task.duration - task.elapsedMs, 0);
+      const finishes = tasks.map(task => forecast.value.get(task.id)?.finishAt);
+      return {
+        ...job,
+        tasks,
+        done: job.size - tasks.length,
+        progress: job.totalMs > 0 ? 1 - remainingMs / job.totalMs : 1,
+        activeCost: tasks.reduce((sum, task) => sum + (activeStore.get(task.id) ? task.cost : 0), 0),
+        isPaused: tasks.every(task => pausedStore.get(task.id)),
+        etaMs: finishes.every(finishAt => finishAt !== undefined) ? Math.max(...finishes) : null,
+      } satisfies JobSummary;
+    });
+  });
+
   return {
     /** Активные задачи (глубокая реактивность на elapsedMs) */
     activeTasks: computed(() => activeStore.tasks),
-    /** Задачи возвращённые из паузы (FIFO) */
+    /** Задачи возвращённые из паузы (в порядке приоритета) */
     resumedTasks: computed(() => resumedStore.tasks),
-    /** Новые задачи в очереди (FIFO) */
+    /** Новые задачи в очереди (в порядке приоритета) */
     pendingTasks: computed(() => pendingStore.tasks),
     /** Приостановленные задачи */
     pausedTasks: computed(() => pausedStore.tasks),
+    /** Задачи в карантине (тип не зарегистрирован или payload не по схеме) */
+    quarantinedTasks: computed(() => managerStore.quarantinedTasks),
     /** Создать новую задачу и добавить в pending */
     addTask: managerStore.addTask,
-    /** Отменить задачу из любого пула */
-    cancelTask: managerStore.cancelTask,
+    /** Создать пачку связанных задач (dependsOn по заданным id) */
+    addTasks: managerStore.addTasks,
+    /** Создать задание — пачку задач с общим управлением */
+    addJob: managerStore.addJob,
+    /** Поставить задание на паузу целиком */
+    pauseJob: managerStore.pauseJob,
+    /** Возобновить задание целиком */
+    resumeJob: managerStore.resumeJob,
+    /** Отменить задание целиком (дорогое или продвинутое — после подтверждения) */
+    cancelJob: (jobId: string) => {
+      const job = jobs.value.find(({ id }) => id === jobId);
+      if (!job) return;
+      void confirmCancel(job.tasks, `задание «${job.title}»`).then(
+        confirmed => confirmed && managerStore.cancelJob(jobId)
+      );
+    },
+    /** Поставить задание в начало очередей */
+    moveJobToFront: (jobId: string) => managerStore.reorderJob({ jobId, toIndex: 0 }),
+    /** Поставить задание в конец очередей */
+    moveJobToBack: (jobId: string) => managerStore.reorderJob({ jobId, toIndex: Infinity }),
+    /** Прогноз старта и завершения задач (пересчитывается при каждом изменении пулов и тике) */
+    forecast,
+    /** Задания с общим прогрессом, ETA и вниманием */
+    jobs,
+    /** Незавершённые предпосылки задачи — пока список не пуст, задача не активируется */
+    getBlockers: (task: TaskSaved) => (task.dependsOn ?? []).flatMap(id => tasksById.value.get(id) ?? []),
+    /** Отменить задачу из любого пула (дорогую или продвинутую — после подтверждения) */
+    cancelTask: (taskId: string) => {
+      const task = tasksById.value.get(taskId);
+      if (!task) return;
+      void confirmCancel([task], `«${getTaskTitle(task)}»`).then(
+        confirmed => confirmed && managerStore.cancelTask(taskId)
+      );
+    },
+    /** Журнал отмен */
+    cancellationLog: computed(() => managerStore.cancellationLog),
     /** Приостановить активную задачу */
     pauseTask: managerStore.pauseTask,
     /** Возобновить приостановленную задачу */
     resumeTask: managerStore.resumeTask,
     /** Поставить на паузу задачу из очереди (resumed) */
     pauseResumedTask: managerStore.pauseResumedTask,
-    /** Загрузить задачи из воркера при старте приложения */
+    /** Переставить задачу в очереди на позицию toIndex */
+    reorderTask: managerStore.reorderTask,
+    /** Поставить задачу в начало своей очереди */
+    moveTaskToFront: (taskId: string) => managerStore.reorderTask({ taskId, toIndex: 0 }),
+    /** Поставить задачу в конец своей очереди */
+    moveTaskToBack: (taskId: string) => managerStore.reorderTask({ taskId, toIndex: Infinity }),
+    /** Повысить (+1) или понизить (-1) приоритет задачи */
+    shiftTaskPriority: (task: TaskSaved, step: 1 | -1) =>
+      managerStore.setTaskPriority({ taskId: task.id, priority: (task.priority ?? 0) + step }),
+    /** Запустить движок задач и подписаться на него (при старте приложения) */
     loadFromWorker: managerStore.loadFromWorker,
   };
 });
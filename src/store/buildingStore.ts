@@ -0,0 +1,184 @@
+import { errAsync } from 'neverthrow';
+import { defineStore } from 'pinia';
+import { computed, ref, shallowRef, watch } from 'vue';
+
+import {
+  type BuildingType,
+  getBuildingDefinition,
+  getFootprint,
+  isBuildingRotation,
+  isBuildingType,
+} from '@/game/buildingRegistry';
+import { useTasksStore } from '@/store/attentionStore';
+import { useCaptureStore } from '@/store/captureStore';
+import { useLevelStore } from '@/store/levelStore';
+import { isInteger, isTaskOf, registerTaskType } from '@/store/taskRegistry';
+import { useToastStore } from '@/store/toastStore';
+import type { Building, BuildingPlacement, BuildingRotation } from '@/types/building';
+import type { LevelIndex } from '@/types/level';
+import { getSaveWorker } from '@/workers/saveWorkerProxy';
+
+const cellKey = (X: number, Y: number) => `${X}_${Y}` as const;
+
+const buildingsChangedListeners = new Set<() => void>();
+
+/**
+ * Тип задачи постройки.
+ *
+ * ВЗАИМОДЕЙСТВИЕ: onComplete → saveWorker.placeBuilding (правила те же, что у предпросмотра) → перезагрузка построек.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Пока шла задача, пол под футпринтом могли убрать — постройка не ставится, игрок видит подсказку.
+ */
+const buildTaskType = registerTaskType({
+  type: 'build',
+  title: 'Постройка',
+  describe: ({ payload }) =>
+    payload.levelIndex
+      ? `${getBuildingDefinition(payload.type)?.name ?? payload.type} (${payload.X}, ${payload.Y}) · уровень ${payload.levelIndex}`
+      : `${getBuildingDefinition(payload.type)?.name ?? payload.type} (${payload.X}, ${payload.Y})`,
+  payloadSchema: {
+    levelIndex: isInteger,
+    type: isBuildingType,
+    X: isInteger,
+    Y: isInteger,
+    rotation: isBuildingRotation,
+  },
+  // Цена и длительность задаются по типу постройки при создании задачи
+  defaults: { cost: 1, duration: 30 * 1000 },
+  cancelPolicy: {
+    refund: 'partial',
+    workKey: ({ payload }) =>
+      `build:${payload.levelIndex}:${payload.type}:${cellKey(payload.X, payload.Y)}:${payload.rotation}`,
+  },
+  onComplete: async ({ payload }) => {
+    const { levelIndex, ...placement } = payload;
+    const result = await getSaveWorker().placeBuilding({ levelIndex, placement });
+    if (result.type !== 'placed')
+      return void useToastStore().show({
+        icon: 'warning',
+        title: `${getBuildingDefinition(placement.type)?.name ?? placement.type} не построена`,
+        description: 'Место под постройкой изменилось, пока шла задача',
+      });
+    await useBuildingStore().loadFromWorker();
+  },
+});
+
+const isBuildTask = isTaskOf(buildTaskType);
+
+/**
+ * Стор построек текущего уровня.
+ *
+ * ЗАЧЕМ: Постройка занимает несколько клеток и живёт отдельно от карты тайлов.
+ * Размещение — задача менеджера задач, выбор и снос — мгновенные действия.
+ *
+ * ВЗАИМОДЕЙСТВИЕ:
+ * - Источник истины — saveWorker (постройки уровней), стор — проекция текущего уровня
+ * - Режим размещения (activeType, rotation) и выбор читает BuildingController сцены через onBuildingsChanged
+ * - Клетки под постройками и незавершёнными задачами постройки заняты: их не меняют тайловые инструменты
+ * - И наоборот: на клетках с незавершённым захватом (useCaptureStore().isCapturing) постройку не ставят
+ */
+export const useBuildingStore = defineStore('building', () => {
+  const tasksStore = useTasksStore();
+  const levelStore = useLevelStore();
+
+  const buildings = shallowRef<Building[]>([]);
+  const selectedId = ref<string | null>(null);
+  /** Тип постройки в режиме размещения; null — режим выключен */
+  const activeType = ref<BuildingType | null>(null);
+  const rotation = ref<BuildingRotation>(0);
+
+  const notify = () => buildingsChangedListeners.forEach(listener => listener());
+
+  /** Незавершённые задачи постройки текущего уровня (в любом пуле) */
+  const pendingBuilds = computed(() => {
+    const pools = [tasksStore.activeTasks, tasksStore.resumedTasks, tasksStore.pendingTasks, tasksStore.pausedTasks];
+    return pools
+      .flat()
+      .filter(isBuildTask)
+      .filter(task => task.payload.levelIndex === levelStore.currentLevelIndex);
+  });
+
+  /** Клетки текущего уровня под постройками и незавершёнными задачами постройки */
+  const occupiedCells = computed(
+    () =>
+      new Set(
+        [...buildings.value, ...pendingBuilds.value.map(({ payload }) => payload)]
+          .flatMap(placement => getFootprint(placement))
+          .map(({ X, Y }) => cellKey(X, Y))
+      )
+  );
+
+  // Задача постройки добавлена или завершена — занятые клетки и призраки сцены меняются
+  watch(pendingBuilds, notify);
+
+  const select = (id: string | null) => {
+    selectedId.value = id;
+    notify();
+  };
+
+  return {
+    buildings,
+    selectedId,
+    /** Выбранная постройка */
+    selected: computed(() => buildings.value.find(({ id }) => id === selectedId.value)),
+    activeType,
+    rotation,
+    pendingBuilds,
+    /** Перечитать постройки текущего уровня; выбор снимается, если выбранной больше нет */
+    loadFromWorker: async () => {
+      buildings.value = await getSaveWorker().getBuildings({ levelIndex: levelStore.currentLevelIndex });
+      if (!buildings.value.some(({ id }) => id === selectedId.value)) selectedId.value = null;
+      notify();
+    },
+    /** Занята ли клетка текущего уровня постройкой (или задачей постройки) */
+    isOccupied: ({ X, Y }: { X: number; Y: number }) => occupiedCells.value.has(cellKey(X, Y)),
+    /** Включить режим размещения постройки (выбор снимается) */
+    startPlacement: (type: BuildingType) => {
+      activeType.value = type;
+      selectedId.value = null;
+      notify();
+    },
+    cancelPlacement: () => {
+      if (activeType.value === null) return;
+      activeType.value = null;
+      notify();
+    },
+    /** Повернуть размещаемую постройку на четверть оборота по часовой стрелке */
+    rotate: () => {
+      rotation.value = ((rotation.value + 1) % 4) as BuildingRotation;
+      notify();
+    },
+    /**
+     * Поставить постройку в очередь задач.
+     * ГРАНИЧНЫЕ СЛУЧАИ:
+     * - Футпринт пересекает постройку или задачу постройки → err overlap (пол проверяет вызывающий)
+     * - Под футпринтом идёт захват клетки → err capturing: тайл ещё сменится
+     */
+    queueBuilding: ({ levelIndex, ...placement }: BuildingPlacement & { levelIndex: LevelIndex }) => {
+      const footprint = getFootprint(placement);
+      if (footprint.some(({ X, Y }) => occupiedCells.value.has(cellKey(X, Y))))
+        return errAsync({ type: 'overlap' as const });
+      const captureStore = useCaptureStore();
+      if (footprint.some(cell => captureStore.isCapturing({ ...cell, levelIndex })))
+        return errAsync({ type: 'capturing' as const });
+      const { cost, duration } = getBuildingDefinition(placement.type) ?? buildTaskType.defaults;
+      return tasksStore.addTask({ type: buildTaskType.type, payload: { levelIndex, ...placement }, cost, duration });
+    },
+    select,
+    /** Снести выбранную постройку: футпринт освобождается, тайлы под ней остаются */
+    removeSelected: async () => {
+      const id = selectedId.value;
+      if (!id) return;
+      await getSaveWorker().removeBuilding({ levelIndex: levelStore.currentLevelIndex, id });
+      buildings.value = buildings.value.filter(building => building.id !== id);
+      select(null);
+    },
+    /**
+     * Подписаться на изменения построек, выбора и режима размещения.
+     * @returns функция отписки
+     */
+    onBuildingsChanged: (listener: () => void) => {
+      buildingsChangedListeners.add(listener);
+      return () => void buildingsChangedListeners.delete(listener);
+    },
+  };
+});
@@ -1,14 +1,18 @@
 import { defineStore } from 'pinia';
 import { ref } from 'vue';
 
+import type { LevelIndex } from '@/types/level';
+
+/** Зум камеры — у каждого уровня свой */
 export const useCameraZoomStore = defineStore(
   'camera-zoom',
   () => {
-    const zoom = ref(1);
+    const zooms = ref<{ [levelIndex in LevelIndex]?: number }>({});
 
     return {
-      zoom,
-      setZoom: (newZoom: number) => (zoom.value = newZoom),
+      zooms,
+      getZoom: (levelIndex: LevelIndex) => zooms.value[levelIndex] ?? 1,
+      setZoom: (levelIndex: LevelIndex, newZoom: number) => (zooms.value = { ...zooms.value, [levelIndex]: newZoom }),
     };
   },
   {
@@ -16,14 +20,17 @@ export const useCameraZoomStore = defineStore(
   }
 );
 
+/** Позиция камеры — у каждого уровня своя */
 export const useCameraPositionStore = defineStore(
   'camera-position',
   () => {
-    const position = ref({ x: 0, y: 0 });
+    const positions = ref<{ [levelIndex in LevelIndex]?: { x: number; y: number } }>({});
 
     return {
-      position,
-      setPosition: (x: number, y: number) => (position.value = { x, y }),
+      positions,
+      getPosition: (levelIndex: LevelIndex) => positions.value[levelIndex] ?? { x: 0, y: 0 },
+      setPosition: (levelIndex: LevelIndex, x: number, y: number) =>
+        (positions.value = { ...positions.value, [levelIndex]: { x, y } }),
     };
   },
   {
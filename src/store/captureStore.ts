@@ -0,0 +1,218 @@
+import { chunk } from 'lodash-es';
+import { nanoid } from 'nanoid';
+import { errAsync } from 'neverthrow';
+import { defineStore } from 'pinia';
+import { expectNever } from 'ts-expect';
+import { computed } from 'vue';
+
+import { BUILD_TOOLS_CONFIG, CAPTURE_CONFIG } from '@/game/constants';
+import { TILE_INDEX, TILE_KEYS } from '@/game/tileRegistry';
+import { useTasksStore } from '@/store/attentionStore';
+import { useLevelStore } from '@/store/levelStore';
+import { type TaskOf, isInteger, isOptionalInteger, isTaskOf, registerTaskType } from '@/store/taskRegistry';
+import { useToastStore } from '@/store/toastStore';
+import type { LevelIndex, TileIndexes } from '@/types/level';
+import type { TileCaptureError } from '@/workers/saveWorker';
+import { getSaveWorker } from '@/workers/saveWorkerProxy';
+
+/** levelIndex не задан — задача сохранена до появления уровней, т.е. поверхность */
+const cellKey = (levelIndex: LevelIndex | undefined, X: number, Y: number) => `${levelIndex ?? 0}:${X}_${Y}` as const;
+
+const capturedListeners = new Set<(payload: CaptureTask['payload']) => void>();
+
+const isTileIndex = (value: unknown): value is TileIndexes => typeof value === 'number' && value in TILE_KEYS;
+
+/**
+ * Захват отклонён при записи — уровень изменился, пока шла задача.
+ * below — отказал уровень ниже (лестница: stairsUp не ставится туда, где станет островом)
+ */
+function showCaptureError(error: TileCaptureError, cells: number, { below = false } = {}) {
+  const title = cells === 1 ? 'Клетка не захвачена' : `Область не захвачена (${cells} кл.)`;
+  const show = (description: string) => void useToastStore().show({ icon: 'warning', title, description });
+  switch (error.type) {
+    case 'stairs':
+      return show(below ? 'Под клеткой уровнем ниже — лестница' : 'В клетке появилась лестница');
+    case 'building':
+      return show(below ? 'Под клеткой уровнем ниже — постройка' : 'Клетку заняла постройка');
+    case 'not_connected':
+      return show(below ? 'Уровнем ниже клетка не связана с его тайлами' : 'Клетки больше не связаны с уровнем');
+    default:
+      expectNever(error);
+  }
+}
+
+/**
+ * Тип задачи захвата тайла.
+ *
+ * ВЗАИМОДЕЙСТВИЕ:
+ * - onComplete → saveWorker.captureTiles (правила перепроверяются при записи) → onCaptured слушатели (тайлмап сцены)
+ * - Захват stairsDown → saveWorker.digStairs: stairsUp появляется уровнем ниже (уровень создаётся при необходимости)
+ * - Запись отклонена → подсказка игроку, слушатели не вызываются
+ */
+const captureTaskType = registerTaskType({
+  type: 'capture',
+  title: 'Захват тайла',
+  describe: ({ payload }) =>
+    payload.levelIndex
+      ? `Захват (${payload.X}, ${payload.Y}) · уровень ${payload.levelIndex}`
+      : `Захват (${payload.X}, ${payload.Y})`,
+  payloadSchema: {
+    X: isInteger,
+    Y: isInteger,
+    levelIndex: isOptionalInteger,
+    targetIndex: isTileIndex,
+  },
+  defaults: CAPTURE_CONFIG,
+  // Половина работы остаётся на клетке: повторный захват начнётся не с нуля
+  cancelPolicy: {
+    refund: 'partial',
+    workKey: ({ payload }) => `capture:${cellKey(payload.levelIndex, payload.X, payload.Y)}`,
+  },
+  onComplete: async ({ payload }) => {
+    const { X, Y, targetIndex, levelIndex = 0 } = payload;
+    if (targetIndex === TILE_INDEX.stairsDown) {
+      const result = await getSaveWorker().digStairs({ levelIndex, X, Y });
+      if (result.type !== 'dug') return showCaptureError(result, 1, { below: result.levelIndex !== levelIndex });
+      if (result.created) await useLevelStore().loadFromWorker();
+    } else {
+      const error = await getSaveWorker().captureTiles({ levelIndex, tiles: [{ X, Y, index: targetIndex }] });
+      if (error) return showCaptureError(error, 1);
+    }
+    capturedListeners.forEach(listener => listener(payload));
+  },
+});
+type CaptureTask = TaskOf<typeof captureTaskType>;
+const isCaptureTask = isTaskOf(captureTaskType);
+
+/** Клетка области захвата */
+type AreaTile = Omit<CaptureTask['payload'], 'levelIndex'>;
+const isAreaTiles = (value: unknown): value is AreaTile[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(
+    (tile: unknown) =>
+      typeof tile === 'object' &&
+      tile !== null &&
+      'X' in tile &&
+      'Y' in tile &&
+      'targetIndex' in tile &&
+      isInteger(tile.X) &&
+      isInteger(tile.Y) &&
+      isTileIndex(tile.targetIndex)
+  );
+
+/**
+ * Тип задачи захвата области — штрих инструмента строительства целиком.
+ *
+ * ЗАЧЕМ: Связность штриха проверялась для всех клеток вместе — и записываются они вместе,
+ * одним saveWorker.captureTiles: уровень не бывает в промежуточном состоянии с островами.
+ * При записи связность проверяется снова — пакет, потерявший связь с уровнем, отклоняется целиком.
+ * Длинный штрих делится на части по порядку связности — каждая часть цепляется за уже записанные.
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ: Отменённая работа не возвращается — повторный штрих почти никогда не совпадает клетка в клетку.
+ */
+const captureAreaTaskType = registerTaskType({
+  type: 'captureArea',
+  title: 'Захват области',
+  describe: ({ payload }) =>
+    payload.levelIndex
+      ? `Захват области · ${payload.tiles.length} кл. · уровень ${payload.levelIndex}`
+      : `Захват области · ${payload.tiles.length} кл.`,
+  payloadSchema: {
+    levelIndex: isInteger,
+    tiles: isAreaTiles,
+  },
+  defaults: CAPTURE_CONFIG,
+  onComplete: async ({ payload }) => {
+    const { levelIndex, tiles } = payload;
+    const error = await getSaveWorker().captureTiles({
+      levelIndex,
+      tiles: tiles.map(({ X, Y, targetIndex }) => ({ X, Y, index: targetIndex })),
+    });
+    if (error) return showCaptureError(error, tiles.length);
+    tiles.forEach(tile => capturedListeners.forEach(listener => listener({ ...tile, levelIndex })));
+  },
+});
+type CaptureAreaTask = TaskOf<typeof captureAreaTaskType>;
+const isCaptureAreaTask = isTaskOf(captureAreaTaskType);
+
+/**
+ * Стор захвата тайлов — конкретная реализация задачи поверх менеджера задач.
+ *
+ * ЗАЧЕМ: Размещение тайла — не мгновенное действие, а работа, занимающая внимание.
+ * Тайл записывается в уровень и тайлмап только после завершения задачи.
+ *
+ * ВЗАИМОДЕЙСТВИЕ:
+ * - Одиночная клетка — задача type='capture' через useTasksStore().addTask
+ * - Штрих инструмента строительства — задача type='captureArea' (запись одним captureTiles),
+ *   длинный штрих (коридор) — задание из таких задач через addJob
+ * - Отмена задачи ничего не пишет: карта не меняется
+ * - Завершённый захват (кроме лестницы) попадает в историю правок saveWorker — Ctrl+Z
+ */
+export const useCaptureStore = defineStore('capture', () => {
+  const tasksStore = useTasksStore();
+
+  /** Клетки с незавершённым захватом (задача в любом пуле) */
+  const capturingCells = computed(() => {
+    const cells = new Map<ReturnType<typeof cellKey>, CaptureTask | CaptureAreaTask>();
+    const pools = [tasksStore.activeTasks, tasksStore.resumedTasks, tasksStore.pendingTasks, tasksStore.pausedTasks];
+    for (const pool of pools)
+      for (const task of pool) {
+        if (isCaptureTask(task)) {
+          const { X, Y, levelIndex } = task.payload;
+          cells.set(cellKey(levelIndex, X, Y), task);
+        } else if (isCaptureAreaTask(task)) {
+          const { tiles, levelIndex } = task.payload;
+          tiles.forEach(({ X, Y }) => cells.set(cellKey(levelIndex, X, Y), task));
+        }
+      }
+    return cells;
+  });
+
+  return {
+    capturingCells,
+    /** Идёт ли захват клетки */
+    isCapturing: ({ X, Y, levelIndex }: { X: number; Y: number; levelIndex: LevelIndex }) =>
+      capturingCells.value.has(cellKey(levelIndex, X, Y)),
+    /**
+     * Поставить штрих инструмента строительства на захват (см. captureAreaTaskType).
+     * tiles — по порядку связности с уровнем (saveWorker.getBatchConnectivity): любой их префикс цепляется за уровень.
+     *
+     * ГРАНИЧНЫЕ СЛУЧАИ:
+     * - Клетки, которые уже захватываются, пропускаются; не осталось ни одной → err nothing_to_capture
+     * - Осталась одна клетка → обычный захват тайла (с возвратом работы при отмене)
+     * - Клеток больше jobSegmentCells → задание: части по порядку, каждая ждёт предыдущую (отмена части отменяет хвост)
+     */
+    captureArea: ({ levelIndex, tiles }: { levelIndex: LevelIndex; tiles: AreaTile[] }) => {
+      const free = tiles.filter(({ X, Y }) => !capturingCells.value.has(cellKey(levelIndex, X, Y)));
+      if (!free.length) return errAsync({ type: 'nothing_to_capture' as const });
+      if (free.length === 1)
+        return tasksStore.addTask({ type: captureTaskType.type, payload: { ...free[0], levelIndex } });
+      const toTask = (segment: AreaTile[]) => ({
+        type: captureAreaTaskType.type,
+        payload: { levelIndex, tiles: segment },
+        duration: CAPTURE_CONFIG.duration * segment.length,
+      });
+      if (free.length <= BUILD_TOOLS_CONFIG.jobSegmentCells) return tasksStore.addTask(toTask(free));
+
+      const segments = chunk(free, BUILD_TOOLS_CONFIG.jobSegmentCells);
+      const ids = segments.map(() => nanoid());
+      return tasksStore.addJob({
+        title: `Захват области · ${free.length} кл.`,
+        tasks: segments.map((segment, i) => ({
+          ...toTask(segment),
+          id: ids[i],
+          dependsOn: i ? [ids[i - 1]] : undefined,
+        })),
+      });
+    },
+    /**
+     * Подписаться на завершённые захваты (тайл уже записан в уровень).
+     * @returns функция отписки
+     */
+    onCaptured: (listener: (payload: CaptureTask['payload']) => void) => {
+      capturedListeners.add(listener);
+      return () => void capturedListeners.delete(listener);
+    },
+  };
+});
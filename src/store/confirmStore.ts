@@ -0,0 +1,38 @@
+import { defineStore } from 'pinia';
+import { shallowRef } from 'vue';
+
+interface ConfirmRequest {
+  title: string;
+  description?: string;
+  /** Подпись кнопки подтверждения */
+  confirmLabel?: string;
+  resolve: (confirmed: boolean) => void;
+}
+
+/**
+ * Стор диалога подтверждения (один диалог за раз, см. ConfirmDialog.vue).
+ * ГРАНИЧНЫЕ СЛУЧАИ: Новый запрос, пока открыт прежний, отклоняет прежний.
+ */
+export const useConfirmStore = defineStore('confirm', () => {
+  const request = shallowRef<ConfirmRequest | null>(null);
+
+  const answer = (confirmed: boolean) => {
+    const current = request.value;
+    request.value = null;
+    current?.resolve(confirmed);
+  };
+
+  return {
+    request,
+    /**
+     * Спросить подтверждение.
+     * @returns true — игрок подтвердил
+     */
+    ask: (input: Omit<ConfirmRequest, 'resolve'>) =>
+      new Promise<boolean>(resolve => {
+        answer(false);
+        request.value = { ...input, resolve };
+      }),
+    answer,
+  };
+});
@@ -0,0 +1,83 @@
+import { defineStore } from 'pinia';
+import { shallowRef } from 'vue';
+
+import type { GAME_CLOCK_CONFIG } from '@/game/constants';
+import { getSaveWorker } from '@/workers/saveWorkerProxy';
+
+export type TimeScale = (typeof GAME_CLOCK_CONFIG.timeScales)[number];
+
+/**
+ * Единые игровые часы.
+ *
+ * ЗАЧЕМ: Задачи, события внимания, геймплейные таймеры Phaser и будущая симуляция идут от одного времени
+ * с общей паузой (isPaused) и скоростью 1x/2x/4x.
+ *
+ * ВЗАИМОДЕЙСТВИЕ:
+ * - Часы тикают только в движке задач saveWorker — стор отражает его события clock (syncGameTime),
+ *   своего таймера у главного потока нет: время в HUD и отсчёты задач не расходятся с движком и не скачут назад
+ * - Прирост времени между событиями clock раздаётся слушателям onTick — от него идут часы Phaser для геймплея
+ * - isPaused и timeScale сохраняются в dungeonState через saveWorker и управляют тиком движка
+ * - Стриминг тайлмапа от часов НЕ зависит — камера работает и на паузе
+ */
+export const useGameClockStore = defineStore('gameClock', () => {
+  const isPaused = shallowRef(false);
+  const timeScale = shallowRef<TimeScale>(1);
+  /** Игровое время (мс) — копится между сессиями, источник истины — движок задач в saveWorker */
+  const gameTime = shallowRef(0);
+
+  const tickListeners = new Set<(delta: number) => void>();
+
+  const saveToWorker = () =>
+    void getSaveWorker().setGameClock({ isPaused: isPaused.value, timeScale: timeScale.value });
+
+  return {
+    isPaused,
+    timeScale,
+    gameTime,
+    /** Поставить игру на паузу (задачи остаются в своих пулах) */
+    pause: () => {
+      if (isPaused.value) return;
+      isPaused.value = true;
+      saveToWorker();
+    },
+    /** Снять игру с паузы */
+    resume: () => {
+      if (!isPaused.value) return;
+      isPaused.value = false;
+      saveToWorker();
+    },
+    togglePause: () => {
+      isPaused.value = !isPaused.value;
+      saveToWorker();
+    },
+    setTimeScale: (value: TimeScale) => {
+      if (timeScale.value === value) return;
+      timeScale.value = value;
+      saveToWorker();
+    },
+    /**
+     * Подписаться на тики игрового времени (delta — игровые мс, уже с учётом скорости).
+     * @returns функция отписки
+     */
+    onTick: (listener: (delta: number) => void) => {
+      tickListeners.add(listener);
+      return () => void tickListeners.delete(listener);
+    },
+    /**
+     * Игровое время из тика движка задач.
+     * ГРАНИЧНЫЕ СЛУЧАИ: На паузе движок не тикает — событий нет, слушатели стоят; время назад не идёт.
+     */
+    syncGameTime: (value: number) => {
+      const delta = value - gameTime.value;
+      gameTime.value = value;
+      if (delta > 0) tickListeners.forEach(listener => listener(delta));
+    },
+    /** Загрузить паузу, скорость и игровое время из воркера */
+    loadFromWorker: async () => {
+      const clock = await getSaveWorker().getGameClock();
+      isPaused.value = clock.isPaused;
+      timeScale.value = clock.timeScale;
+      gameTime.value = clock.gameTime;
+    },
+  };
+});
@@ -0,0 +1,91 @@
+import { ResultAsync, errAsync, okAsync } from 'neverthrow';
+import { defineStore } from 'pinia';
+import { computed, shallowRef } from 'vue';
+
+import type { LevelIndex, LevelInfo } from '@/types/level';
+import { getSaveWorker } from '@/workers/saveWorkerProxy';
+
+/** Клетка, на которую навести камеру после перехода (лестница) */
+type LevelFocus = { X: number; Y: number };
+type LevelChangedListener = (levelIndex: LevelIndex, focus?: LevelFocus) => void;
+
+const levelChangedListeners = new Set<LevelChangedListener>();
+
+/**
+ * Стор уровней подземелья.
+ *
+ * ЗАЧЕМ: Подземелье растёт вглубь: уровни создаются, переименовываются и переключаются
+ * из панели уровней, хоткеями PageUp/PageDown и лестницами.
+ *
+ * ВЗАИМОДЕЙСТВИЕ:
+ * - Источник истины — saveWorker (описания уровней и активный уровень в meta), стор — проекция
+ * - Сцена подписывается через onLevelChanged: камера уровня и перезагрузка тайлмапа
+ */
+export const useLevelStore = defineStore('level', () => {
+  const levels = shallowRef<LevelInfo[]>([]);
+  const currentLevelIndex = shallowRef<LevelIndex>(0);
+
+  const loadFromWorker = async () => {
+    const worker = getSaveWorker();
+    const [list, levelIndex] = await Promise.all([worker.getLevels(), worker.getCurrentLevelIndex()]);
+    levels.value = list;
+    currentLevelIndex.value = levelIndex;
+  };
+
+  /**
+   * Переключить активный уровень.
+   *
+   * ГРАНИЧНЫЕ СЛУЧАИ:
+   * - Уровня нет → err unknown_level
+   * - Уровень уже активен → ok без событий
+   */
+  const switchLevel = (levelIndex: LevelIndex, focus?: LevelFocus) => {
+    if (!levels.value.some(level => level.index === levelIndex))
+      return errAsync({ type: 'unknown_level' as const, levelIndex });
+    if (levelIndex === currentLevelIndex.value) return okAsync(levelIndex);
+    return ResultAsync.fromSafePromise<void>(getSaveWorker().setCurrentLevelIndex(levelIndex)).map(() => {
+      currentLevelIndex.value = levelIndex;
+      levelChangedListeners.forEach(listener => listener(levelIndex, focus));
+      return levelIndex;
+    });
+  };
+
+  return {
+    levels,
+    currentLevelIndex,
+    currentLevel: computed(() => levels.value.find(level => level.index === currentLevelIndex.value)),
+    loadFromWorker,
+    switchLevel,
+    /**
+     * Перейти на соседний уровень (PageUp — выше, PageDown — глубже).
+     * ГРАНИЧНЫЕ СЛУЧАИ: Соседнего уровня нет → err unknown_level.
+     */
+    switchByOffset: (offset: -1 | 1) => switchLevel(currentLevelIndex.value + offset),
+    /** Создать уровень глубже самого нижнего и перейти на него */
+    createLevel: (name?: string) =>
+      ResultAsync.fromSafePromise<LevelInfo>(getSaveWorker().createLevel({ name })).andThen(level => {
+        levels.value = [...levels.value, level];
+        return switchLevel(level.index);
+      }),
+    /**
+     * Переименовать уровень.
+     * ГРАНИЧНЫЕ СЛУЧАИ: Пустое имя или уровня нет → err invalid_name.
+     */
+    renameLevel: (levelIndex: LevelIndex, name: string) =>
+      ResultAsync.fromSafePromise<boolean>(getSaveWorker().renameLevel({ levelIndex, name })).andThen(renamed => {
+        if (!renamed) return errAsync({ type: 'invalid_name' as const, levelIndex });
+        levels.value = levels.value.map(level =>
+          level.index === levelIndex ? { ...level, name: name.trim() } : level
+        );
+        return okAsync(levelIndex);
+      }),
+    /**
+     * Подписаться на смену активного уровня.
+     * @returns функция отписки
+     */
+    onLevelChanged: (listener: LevelChangedListener) => {
+      levelChangedListeners.add(listener);
+      return () => void levelChangedListeners.delete(listener);
+    },
+  };
+});
@@ -0,0 +1,109 @@
+import { errAsync } from 'neverthrow';
+import { defineStore } from 'pinia';
+import { computed } from 'vue';
+
+import { RESEARCH_NODES, type ResearchNode, type ResearchNodeId, getResearchNode } from '@/game/researchTree';
+import { type TaskInput, useAttentionStore, useTasksStore } from '@/store/attentionStore';
+import { type TaskOf, isTaskOf, registerTaskType } from '@/store/taskRegistry';
+import { getSaveWorker } from '@/workers/saveWorkerProxy';
+
+/** id задачи исследования: один узел — не больше одной задачи, предпосылки ссылаются на него через dependsOn */
+const researchTaskId = (nodeId: string) => `research:${nodeId}`;
+
+/**
+ * Тип задачи исследования.
+ * ВЗАИМОДЕЙСТВИЕ: onComplete → saveWorker.unlockResearch → движок пересчитывает эффекты и присылает открытые узлы.
+ */
+const researchTaskType = registerTaskType({
+  type: 'research',
+  title: 'Исследование',
+  describe: ({ payload }) => `Исследование: ${getResearchNode(payload.nodeId)?.title ?? payload.nodeId}`,
+  payloadSchema: {
+    nodeId: (value: unknown): value is ResearchNodeId => typeof value === 'string' && !!getResearchNode(value),
+  },
+  defaults: { cost: 1, duration: 60 * 1000 },
+  // Отменённое исследование сохраняет весь прогресс узла
+  cancelPolicy: { refund: 'full', workKey: ({ payload }) => `research:${payload.nodeId}` },
+  onComplete: ({ payload }) => getSaveWorker().unlockResearch(payload),
+});
+type ResearchTask = TaskOf<typeof researchTaskType>;
+const isResearchTask = isTaskOf(researchTaskType);
+
+/** unlocked — открыт, researching — задача в пулах, available — предпосылки открыты, locked — нет */
+export type ResearchStatus = 'unlocked' | 'researching' | 'available' | 'locked';
+
+/**
+ * Стор дерева исследований.
+ *
+ * ЗАЧЕМ: Рост коэффициента внимания и жадный проход — не настройки, а прогресс игрока.
+ * Исследование — обычная задача: занимает внимание, ставится на паузу и отменяется.
+ *
+ * ВЗАИМОДЕЙСТВИЕ:
+ * - Открытые узлы хранит движок задач (dungeonState.research), проекция — useAttentionStore().unlockedResearch
+ * - Эффекты (getResearchEffects) применяют движок и main thread по одному списку узлов
+ */
+export const useResearchStore = defineStore('research', () => {
+  const tasksStore = useTasksStore();
+  const attentionStore = useAttentionStore();
+
+  /** Узлы, исследование которых стоит в пулах (в т.ч. на паузе) */
+  const researchingNodes = computed(() => {
+    const nodes = new Map<string, ResearchTask>();
+    const pools = [tasksStore.activeTasks, tasksStore.resumedTasks, tasksStore.pendingTasks, tasksStore.pausedTasks];
+    for (const pool of pools)
+      for (const task of pool) {
+        if (isResearchTask(task)) nodes.set(task.payload.nodeId, task);
+      }
+    return nodes;
+  });
+
+  const getStatus = (node: ResearchNode): ResearchStatus => {
+    const unlocked = attentionStore.unlockedResearch;
+    if (unlocked.includes(node.id)) return 'unlocked';
+    if (researchingNodes.value.has(node.id)) return 'researching';
+    return node.requires.every(id => unlocked.includes(id)) ? 'available' : 'locked';
+  };
+
+  return {
+    /** Узлы дерева со статусом */
+    nodes: computed(() => RESEARCH_NODES.map((node: ResearchNode) => ({ node, status: getStatus(node) }))),
+    /**
+     * Поставить узел в очередь исследований.
+     *
+     * АЛГОРИТМ:
+     * 1. Неоткрытые предпосылки без задачи ставятся в очередь вместе с узлом (сначала предпосылки)
+     * 2. Задача узла ждёт задачи своих предпосылок через dependsOn
+     *
+     * ГРАНИЧНЫЕ СЛУЧАИ:
+     * - Узла нет в дереве → err unknown_research
+     * - Узел уже открыт → err already_unlocked, уже исследуется → err already_researching
+     * - Отмена исследования предпосылки каскадно отменяет зависимые исследования
+     */
+    queueResearch: (nodeId: string) => {
+      if (!getResearchNode(nodeId)) return errAsync({ type: 'unknown_research' as const, nodeId });
+      const unlocked = attentionStore.unlockedResearch;
+      if (unlocked.includes(nodeId)) return errAsync({ type: 'already_unlocked' as const, nodeId });
+      if (researchingNodes.value.has(nodeId)) return errAsync({ type: 'already_researching' as const, nodeId });
+
+      const inputs: TaskInput[] = [];
+      const visited = new Set<string>();
+      const collect = (id: string) => {
+        if (visited.has(id) || unlocked.includes(id) || researchingNodes.value.has(id)) return;
+        visited.add(id);
+        const node = getResearchNode(id);
+        if (!node) return;
+        node.requires.forEach(collect);
+        inputs.push({
+          id: researchTaskId(id),
+          type: researchTaskType.type,
+          payload: { nodeId: node.id },
+          cost: node.cost,
+          duration: node.duration,
+          dependsOn: node.requires.filter(requiredId => !unlocked.includes(requiredId)).map(researchTaskId),
+        });
+      };
+      collect(nodeId);
+      return tasksStore.addTasks(inputs);
+    },
+  };
+});
@@ -0,0 +1,178 @@
+import { type Result, err, ok } from 'neverthrow';
+
+import { TASK_CANCEL_CONFIG } from '@/game/constants';
+import type { TaskSaved } from '@/store/attentionStore';
+
+/** Схема payload: поле → type guard его значения */
+type PayloadSchema = { [k in string]: (value: unknown) => boolean };
+/** Тип payload, выведенный из схемы */
+type PayloadOf<S extends PayloadSchema> = {
+  [K in keyof S]: S[K] extends (value: unknown) => value is infer R ? R : unknown;
+};
+
+type TaskHook<T extends TaskSaved> = (task: T) => void | Promise<void>;
+
+/** Политика отмены: сколько вложенной работы вернуть и где она остаётся */
+interface CancelPolicy<T extends TaskSaved> {
+  /** full — вся работа, partial — доля TASK_CANCEL_CONFIG.partialRefund, none — ничего */
+  refund: 'full' | 'partial' | 'none';
+  /** Цель задачи (клетка карты, узел дерева): новая задача той же цели начнёт с возвращённой работой */
+  workKey: (task: T) => string;
+}
+
+/**
+ * Описание типа задачи.
+ *
+ * ЗАЧЕМ: Менеджер задач универсален и ничего не знает о смысле задач.
+ * Тип задачи объявляет схему payload, параметры по умолчанию и хуки жизненного цикла.
+ */
+interface TaskTypeDefinition<T extends string = string, S extends PayloadSchema = PayloadSchema> {
+  type: T;
+  /** Название типа для UI */
+  title: string;
+  /** Подпись конкретной задачи для UI (по умолчанию — title) */
+  describe?: (task: TaskSaved<PayloadOf<S>, T>) => string;
+  payloadSchema: S;
+  /** cost и duration по умолчанию (независимые параметры) */
+  defaults: Pick<TaskSaved, 'cost' | 'duration'>;
+  /** Множитель скорости выполнения (по умолчанию 1) */
+  speedModifier?: number;
+  /** Задача попала в активный пул (в т.ч. после возобновления) */
+  onStart?: TaskHook<TaskSaved<PayloadOf<S>, T>>;
+  /** Задача выполнена — применить её эффект */
+  onComplete?: TaskHook<TaskSaved<PayloadOf<S>, T>>;
+  /** Задача отменена из любого пула */
+  onCancel?: TaskHook<TaskSaved<PayloadOf<S>, T>>;
+  /** Задача поставлена на паузу */
+  onPause?: TaskHook<TaskSaved<PayloadOf<S>, T>>;
+  /** Политика отмены (по умолчанию работа теряется) */
+  cancelPolicy?: CancelPolicy<TaskSaved<PayloadOf<S>, T>>;
+}
+
+/** Задача, соответствующая описанию типа */
+export type TaskOf<D> = D extends TaskTypeDefinition<infer T, infer S> ? TaskSaved<PayloadOf<S>, T> : never;
+
+/**
+ * Type guard задачи типа definition: совпадает type и payload проходит схему.
+ * ЗАЧЕМ: Сторы выбирают свои задачи из общих пулов без приведения типов (filter(isTaskOf(definition))).
+ */
+export const isTaskOf =
+  <T extends string, S extends PayloadSchema>(definition: TaskTypeDefinition<T, S>) =>
+  (task: TaskSaved): task is TaskSaved<PayloadOf<S>, T> =>
+    task.type === definition.type && findInvalidField(definition.payloadSchema, task.payload) === undefined;
+
+export type TaskValidationError =
+  | { type: 'unknown_type'; taskType: string }
+  | { type: 'invalid_payload'; taskType: string; field: string };
+
+type TaskHookName = 'onStart' | 'onComplete' | 'onCancel' | 'onPause';
+
+/**
+ * Тип задачи в реестре — с payload, стёртым до TaskSaved.
+ * Колбэки описания обёрнуты: сначала payload проверяется схемой, только потом вызывается типизированный колбэк.
+ */
+interface RegisteredTaskType
+  extends Pick<TaskTypeDefinition, 'type' | 'title' | 'payloadSchema' | 'defaults' | 'speedModifier'> {
+  describe?: (task: TaskSaved) => string | undefined;
+  hooks: { [hook in TaskHookName]?: (task: TaskSaved) => void | Promise<void> };
+  cancelPolicy?: { refund: CancelPolicy<TaskSaved>['refund']; workKey: (task: TaskSaved) => string | undefined };
+}
+
+const registry = new Map<string, RegisteredTaskType>();
+
+export const isInteger = (value: unknown): value is number => Number.isInteger(value);
+/** Необязательное поле: задачи, сохранённые до его появления, остаются валидными */
+export const isOptionalInteger = (value: unknown): value is number | undefined =>
+  value === undefined || isInteger(value);
+
+/**
+ * Первое поле payload, не прошедшее схему.
+ * @returns имя поля ('' — payload не объект) или undefined, если payload валиден
+ */
+function findInvalidField(schema: PayloadSchema, payload: unknown) {
+  if (typeof payload !== 'object' || payload === null) return '';
+  return Object.entries(schema).find(([field, guard]) => !guard((payload as { [k in string]: unknown })[field]))?.[0];
+}
+
+/**
+ * Зарегистрировать тип задачи.
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Регистрировать нужно при импорте модуля — до loadFromWorker, иначе задачи уйдут в карантин
+ * - Задача чужого типа или с payload не по схеме в колбэки не попадает (обёртка вернёт undefined)
+ */
+export function registerTaskType<T extends string, S extends PayloadSchema>(definition: TaskTypeDefinition<T, S>) {
+  if (registry.has(definition.type)) console.warn(`[TaskRegistry] task type "${definition.type}" re-registered`);
+  const isOwnTask = isTaskOf(definition);
+  const erase =
+    <R>(callback: (task: TaskSaved<PayloadOf<S>, T>) => R) =>
+    (task: TaskSaved) =>
+      isOwnTask(task) ? callback(task) : undefined;
+
+  const { type, title, describe, payloadSchema, defaults, speedModifier, cancelPolicy } = definition;
+  registry.set(type, {
+    type,
+    title,
+    payloadSchema,
+    defaults,
+    speedModifier,
+    describe: describe && erase(describe),
+    hooks: Object.fromEntries(
+      (['onStart', 'onComplete', 'onCancel', 'onPause'] as const).flatMap(hook => {
+        const handler = definition[hook];
+        return handler ? [[hook, erase(handler)]] : [];
+      })
+    ),
+    cancelPolicy: cancelPolicy && { refund: cancelPolicy.refund, workKey: erase(cancelPolicy.workKey) },
+  });
+  return definition;
+}
+
+/**
+ * Найти тип задачи и проверить payload по его схеме.
+ * @returns ok(тип из реестра) или ошибка unknown_type / invalid_payload
+ */
+export function resolveTaskType({
+  type,
+  payload,
+}: Pick<TaskSaved, 'type' | 'payload'>): Result<RegisteredTaskType, TaskValidationError> {
+  const definition = registry.get(type);
+  if (!definition) return err({ type: 'unknown_type', taskType: type });
+  const field = findInvalidField(definition.payloadSchema, payload);
+  if (field !== undefined) return err({ type: 'invalid_payload', taskType: type, field });
+  return ok(definition);
+}
+
+/** Доли возврата работы при отмене для всех зарегистрированных типов — для движка задач в воркере */
+export const getRefundRatios = () =>
+  Object.fromEntries(
+    Array.from(registry.values(), ({ type, cancelPolicy }) => {
+      const refund = cancelPolicy?.refund ?? 'none';
+      return [type, refund === 'full' ? 1 : refund === 'partial' ? TASK_CANCEL_CONFIG.partialRefund : 0];
+    })
+  );
+
+/** Множители скорости всех зарегистрированных типов — для движка задач в воркере */
+export const getSpeedModifiers = () =>
+  Object.fromEntries(Array.from(registry.values(), ({ type, speedModifier = 1 }) => [type, speedModifier]));
+
+/**
+ * Вызвать хук жизненного цикла типа задачи.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Ошибка в хуке не ломает менеджер — только логируется.
+ */
+export function runTaskHook(hook: TaskHookName, task: TaskSaved) {
+  const handler = registry.get(task.type)?.hooks[hook];
+  if (!handler) return;
+  void Promise.resolve()
+    .then(() => handler(task))
+    .catch(error => console.error(`[TaskRegistry] ${task.type}.${hook} failed:`, error));
+}
+
+/**
+ * Человекочитаемое название задачи.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Тип не зарегистрирован (карантин) → сам type.
+ */
+export function getTaskTitle(task: TaskSaved) {
+  const definition = registry.get(task.type);
+  if (!definition) return task.type;
+  return definition.describe?.(task) ?? definition.title;
+}
@@ -1,13 +1,23 @@
 import { defineStore } from 'pinia';
-import { ref } from 'vue';
+import { ref, shallowRef } from 'vue';
 
 import type { TileKeys } from '@/types/level';
 
+/** Инструмент строительства: кисть, линия, контур прямоугольника, залитый прямоугольник, заливка */
+export type BuildTool = 'brush' | 'line' | 'rect' | 'fillRect' | 'fill';
+
 export const useToolbarStore = defineStore('toolbar', () => {
   const activeTile = ref<TileKeys>('grass0');
+  const activeTool = ref<BuildTool>('brush');
+  /** Миниатюры тайлов (data URL) — режутся из текстур после загрузки PreloadScene */
+  const thumbnails = shallowRef<{ [key in TileKeys]?: string }>({});
 
   return {
     activeTile,
+    activeTool,
+    thumbnails,
+    setThumbnails: (images: { [key in TileKeys]?: string }) => (thumbnails.value = images),
     setActiveTile: (type: TileKeys) => (activeTile.value = type),
+    setActiveTool: (tool: BuildTool) => (activeTool.value = tool),
   };
 });
@@ -0,0 +1,18 @@
+import type { BuildingType } from '@/game/buildingRegistry';
+
+/** Поворот постройки — четверти оборота по часовой стрелке */
+export type BuildingRotation = 0 | 1 | 2 | 3;
+
+/** Размещение постройки: X, Y — левая верхняя клетка футпринта (уже с поворотом) */
+export interface BuildingPlacement {
+  type: BuildingType;
+  X: number;
+  Y: number;
+  rotation: BuildingRotation;
+}
+
+/** Постройка уровня — сущность saveWorker, отдельно от карты тайлов */
+export interface Building extends BuildingPlacement {
+  id: string;
+  placedAt: number;
+}
@@ -1,7 +1,13 @@
-import type { TILE_INDEX, TILE_KEYS } from '@/game/constants';
+import type { TERRAIN_INDEX, TERRAIN_KEYS } from '@/game/constants';
+import type { TILE_INDEX, TILE_KEYS } from '@/game/tileRegistry';
 
 export type TileIndexes = keyof typeof TILE_KEYS;
 export type TileKeys = keyof typeof TILE_INDEX;
+export type TerrainIndexes = keyof typeof TERRAIN_KEYS;
+export type TerrainKeys = keyof typeof TERRAIN_INDEX;
+
+/** Индекс уровня — он же глубина */
+export type LevelIndex = number;
 
 export interface Level {
   name: string;
@@ -12,3 +18,8 @@ export interface Level {
   };
   createdAt: number;
 }
+
+/** Уровень вместе с индексом — для списков уровней */
+export interface LevelInfo extends Level {
+  index: LevelIndex;
+}
@@ -0,0 +1,19 @@
+import type { LevelIndex } from '@/types/level';
+import type { Cell } from '@/utils/buildShapes';
+
+/** Комната — замкнутая стенами область пола (находит saveWorker, см. findEnclosedRegions) */
+export interface Room {
+  id: string;
+  levelIndex: LevelIndex;
+  /** Площадь в клетках */
+  area: number;
+  /** Ограничивающий прямоугольник: левая верхняя клетка и размер в клетках */
+  bounds: { X: number; Y: number; width: number; height: number };
+  /** Периметр в сторонах клеток (длина стен вокруг комнаты) */
+  perimeter: number;
+}
+
+/** Комната с клетками — для оверлея границ */
+export interface RoomWithCells extends Room {
+  cells: Cell[];
+}
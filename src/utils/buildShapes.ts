@@ -0,0 +1,68 @@
+import { BUILD_TOOLS_CONFIG } from '@/game/constants';
+
+/** Клетка карты (координаты тайла) */
+export type Cell = { X: number; Y: number };
+
+/** Ключ клетки для Set/Map */
+export const cellId = ({ X, Y }: Cell) => `${X}_${Y}` as const;
+
+/**
+ * Клетки отрезка между двумя клетками с шагом по одной оси.
+ * ЗАЧЕМ: Соседние клетки линии касаются сторонами — линия связна сама по себе.
+ * АЛГОРИТМ: На каждом шаге — ось, после шага по которой клетка ближе к прямой (модуль векторного произведения).
+ */
+export function getLineCells(from: Cell, to: Cell) {
+  const dx = to.X - from.X;
+  const dy = to.Y - from.Y;
+  const deviation = (X: number, Y: number) => Math.abs((X - from.X) * dy - (Y - from.Y) * dx);
+  const cells: Cell[] = [{ ...from }];
+  let { X, Y } = from;
+  while (X !== to.X || Y !== to.Y) {
+    const moveX = X !== to.X && (Y === to.Y || deviation(X + Math.sign(dx), Y) <= deviation(X, Y + Math.sign(dy)));
+    if (moveX) X += Math.sign(dx);
+    else Y += Math.sign(dy);
+    cells.push({ X, Y });
+  }
+  return cells;
+}
+
+/** Клетки прямоугольника по двум углам: контур или заливка */
+export function getRectCells(from: Cell, to: Cell, filled: boolean) {
+  const [left, right] = [Math.min(from.X, to.X), Math.max(from.X, to.X)];
+  const [top, bottom] = [Math.min(from.Y, to.Y), Math.max(from.Y, to.Y)];
+  const cells: Cell[] = [];
+  for (let Y = top; Y <= bottom; Y++)
+    for (let X = left; X <= right; X++)
+      if (filled || X === left || X === right || Y === top || Y === bottom) cells.push({ X, Y });
+  return cells;
+}
+
+/**
+ * Заливка: клетки с тем же индексом, что у начальной, связные с ней по сторонам.
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - getIndex → null (клетка вне загруженного слоя) — граница заливки
+ * - Больше maxCells клеток — заливка обрывается на maxCells + 1: такой штрих негоден целиком (ландшафт бесконечен)
+ */
+export function getFloodFillCells(origin: Cell, getIndex: (cell: Cell) => number | null) {
+  const originIndex = getIndex(origin);
+  if (originIndex === null) return [];
+  const visited = new Set([cellId(origin)]);
+  const queue: Cell[] = [origin];
+  const cells: Cell[] = [];
+  while (queue.length && cells.length <= BUILD_TOOLS_CONFIG.maxCells) {
+    const cell = queue.shift()!;
+    cells.push(cell);
+    for (const neighbour of [
+      { X: cell.X + 1, Y: cell.Y },
+      { X: cell.X - 1, Y: cell.Y },
+      { X: cell.X, Y: cell.Y + 1 },
+      { X: cell.X, Y: cell.Y - 1 },
+    ]) {
+      if (visited.has(cellId(neighbour))) continue;
+      visited.add(cellId(neighbour));
+      if (getIndex(neighbour) === originIndex) queue.push(neighbour);
+    }
+  }
+  return cells;
+}
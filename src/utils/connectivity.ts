@@ -0,0 +1,61 @@
+/**
+ * Связаны ли стартовые вершины между собой.
+ *
+ * ЗАЧЕМ: Правка карты не должна разрывать уровень на острова — но проверять это нужно локально,
+ * не обходя (и не загружая) весь уровень ради одной клетки.
+ *
+ * АЛГОРИТМ:
+ * 1. Из каждой стартовой вершины — своя заливка (BFS); заливки растут по очереди, по вершине за ход
+ * 2. Заливка, дошедшая до вершины другой заливки, сливается с ней (union-find), очереди объединяются
+ * 3. Осталась одна группа — связаны; очередь какой-то группы опустела раньше — она остров
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Разрыв находится за работу, пропорциональную меньшему острову, а не всему графу
+ * - prepare вызывается с соседями вершины до проверки isNode — например, чтобы догрузить их чанки
+ * - Одна стартовая вершина (или ни одной) — связаны
+ */
+export async function areNodesConnected<T>(
+  starts: T[],
+  {
+    isNode,
+    getNeighbours,
+    prepare,
+  }: {
+    isNode: (node: T) => boolean;
+    getNeighbours: (node: T) => T[];
+    prepare?: (nodes: T[]) => Promise<void> | void;
+  }
+) {
+  const nodes = Array.from(new Set(starts));
+  const parent = nodes.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const owners = new Map(nodes.map((node, i) => [node, i]));
+  const queues = nodes.map(node => ({ nodes: [node], head: 0 }));
+  let groups = nodes.length;
+
+  while (groups > 1) {
+    for (let i = 0; i < queues.length && groups > 1; i++) {
+      if (find(i) !== i) continue;
+      const queue = queues[i];
+      if (queue.head === queue.nodes.length) return false;
+      const neighbours = getNeighbours(queue.nodes[queue.head++]);
+      const pending = prepare?.(neighbours);
+      if (pending) await pending;
+      for (const neighbour of neighbours) {
+        if (!isNode(neighbour)) continue;
+        const owner = owners.get(neighbour);
+        if (owner === undefined) {
+          owners.set(neighbour, i);
+          queue.nodes.push(neighbour);
+          continue;
+        }
+        const root = find(owner);
+        if (root === i) continue;
+        parent[root] = i;
+        queue.nodes.push(...queues[root].nodes.slice(queues[root].head));
+        groups--;
+      }
+    }
+  }
+  return true;
+}
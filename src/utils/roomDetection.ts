@@ -0,0 +1,54 @@
+/** Замкнутая область пола: клетки и периметр (число сторон клеток, смежных со стенами) */
+export interface EnclosedRegion<T> {
+  cells: T[];
+  perimeter: number;
+}
+
+/**
+ * Комнаты — связные по сторонам области пола, со всех сторон окружённые стенами.
+ *
+ * ЗАЧЕМ: Комнаты пересчитываются после каждой правки карты — заливка идёт только от изменённых клеток,
+ * а не по всему уровню.
+ *
+ * АЛГОРИТМ:
+ * 1. Из каждой ещё не пройденной клетки пола среди seeds — заливка по полу (BFS)
+ * 2. Сосед не пол — сторона периметра; если сосед ещё и не стена — область не замкнута
+ * 3. Замкнутые области не больше maxArea — комнаты
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Область больше maxArea — заливка обрывается, это не комната (открытое пространство)
+ * - Незамкнутая область заливается целиком (до maxArea): её клетки не заливаются повторно от других seeds
+ */
+export function findEnclosedRegions<T>(
+  seeds: Iterable<T>,
+  {
+    isFloor,
+    isWall,
+    getNeighbours,
+    maxArea,
+  }: { isFloor: (node: T) => boolean; isWall: (node: T) => boolean; getNeighbours: (node: T) => T[]; maxArea: number }
+) {
+  const visited = new Set<T>();
+  const regions: EnclosedRegion<T>[] = [];
+
+  for (const seed of seeds) {
+    if (visited.has(seed) || !isFloor(seed)) continue;
+    visited.add(seed);
+    const cells = [seed];
+    let perimeter = 0;
+    let enclosed = true;
+    for (let i = 0; i < cells.length && cells.length <= maxArea; i++) {
+      for (const neighbour of getNeighbours(cells[i])) {
+        if (!isFloor(neighbour)) {
+          perimeter++;
+          if (!isWall(neighbour)) enclosed = false;
+        } else if (!visited.has(neighbour)) {
+          visited.add(neighbour);
+          cells.push(neighbour);
+        }
+      }
+    }
+    if (enclosed && cells.length <= maxArea) regions.push({ cells, perimeter });
+  }
+  return regions;
+}
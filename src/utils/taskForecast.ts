@@ -0,0 +1,142 @@
+import { TASK_POOL_CONFIG } from '@/game/constants';
+import type { TaskSaved } from '@/store/attentionStore';
+import { getSpeedBonus } from '@/utils/taskSpeed';
+
+/** Прогноз задачи: мс игрового времени от текущего момента */
+export interface TaskForecast {
+  startAt: number;
+  finishAt: number;
+}
+
+interface ForecastInput {
+  active: TaskSaved[];
+  resumed: TaskSaved[];
+  pending: TaskSaved[];
+  /** Задачи, которые сами не стартуют (paused, карантин) — держат зависимых */
+  parked: TaskSaved[];
+  attentionCoefficient: number;
+  greedyPassEnabled: boolean;
+  /** Задержка жадного прохода (ms, с учётом исследований) */
+  greedyPassDelay: number;
+  /** Текущее игровое время — для задач по расписанию (earliestStartAt) */
+  gameTime: number;
+  /** Множители скорости типов (см. getSpeedModifiers) */
+  speedModifiers: { [type in string]: number };
+}
+
+/** Погрешность float при шаге ровно до завершения задачи */
+const COMPLETION_EPSILON_MS = 1e-6;
+
+/**
+ * Прогноз старта и завершения задач при текущем состоянии пулов.
+ *
+ * ЗАЧЕМ: Когда пул занят, игрок должен видеть, когда стартует задача из очереди.
+ *
+ * АЛГОРИТМ (событийная симуляция по правилам движка задач в saveWorker):
+ * 1. Последовательное заполнение: resumed, затем pending; заблокированные зависимостями пропускаются
+ * 2. Шаг — до ближайшего события: завершение активной задачи, жадный проход или старт по расписанию
+ * 3. Скорость = speedModifier × бонус за свободное внимание, постоянна между событиями
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Жадный проход считается запланированным с текущего момента (точное время знает только воркер)
+ * - Задача, которая не стартует никогда (ждёт paused, не влезает в лимит) → нет в результате
+ * - Повторы (recurrence) не прогнозируются — только существующие экземпляры
+ * - Функция чистая: входные задачи не меняются
+ *
+ * @returns прогноз по id задачи (активные — со startAt = 0)
+ */
+export function forecastTasks({
+  active,
+  resumed,
+  pending,
+  parked,
+  attentionCoefficient,
+  greedyPassEnabled,
+  greedyPassDelay,
+  gameTime,
+  speedModifiers,
+}: ForecastInput) {
+  const forecast = new Map<string, TaskForecast>();
+  const running = new Map(
+    active.map(task => [task.id, { task, remainingMs: task.duration - task.elapsedMs, startAt: 0 }])
+  );
+  const queues = [[...resumed], [...pending]];
+  const incomplete = new Set([...active, ...resumed, ...pending, ...parked].map(task => task.id));
+  let now = 0;
+  let greedyAt: number | null = null;
+
+  const getFreeAttention = () => {
+    if (attentionCoefficient <= 0) return 1;
+    let totalCost = 0;
+    running.forEach(({ task }) => (totalCost += task.cost));
+    return 1 - totalCost / attentionCoefficient;
+  };
+  const canFit = ({ cost }: Pick<TaskSaved, 'cost'>) =>
+    attentionCoefficient > 0 && getFreeAttention() >= cost / attentionCoefficient;
+  const isReady = (task: TaskSaved) =>
+    (task.earliestStartAt ?? 0) <= gameTime + now && !task.dependsOn?.some(id => incomplete.has(id));
+  /** Через сколько мс наступит ближайший старт по расписанию */
+  const getNextDueIn = () =>
+    Math.min(
+      ...queues
+        .flat()
+        .map(({ earliestStartAt = 0 }) =>
+          earliestStartAt > gameTime + now ? earliestStartAt - gameTime - now : Infinity
+        )
+    );
+  const start = (task: TaskSaved, queue: TaskSaved[]) => {
+    queue.splice(queue.indexOf(task), 1);
+    running.set(task.id, { task, remainingMs: task.duration - task.elapsedMs, startAt: now });
+  };
+
+  /** @returns нужен ли жадный проход */
+  const fillSequential = () => {
+    for (const queue of queues) {
+      if (!canFit({ cost: TASK_POOL_CONFIG.minimalCost })) return false;
+      for (let task = queue.find(isReady); task && canFit(task); task = queue.find(isReady)) start(task, queue);
+    }
+    return (
+      canFit({ cost: TASK_POOL_CONFIG.minimalCost }) && greedyPassEnabled && queues.some(queue => queue.some(isReady))
+    );
+  };
+  const fillGreedy = () => {
+    for (const queue of queues) {
+      if (!canFit({ cost: TASK_POOL_CONFIG.minimalCost })) return;
+      for (const task of [...queue]) if (isReady(task) && canFit(task)) start(task, queue);
+    }
+  };
+  const fill = () => {
+    if (fillSequential() && greedyAt === null) greedyAt = now + greedyPassDelay;
+  };
+
+  fill();
+  while (running.size || greedyAt !== null || getNextDueIn() < Infinity) {
+    const speedBonus = getSpeedBonus(getFreeAttention());
+    const rates = new Map(
+      Array.from(running.values(), ({ task }) => [task.id, (speedModifiers[task.type] ?? 1) * speedBonus])
+    );
+    const nextCompletion = Math.min(
+      ...Array.from(running.values(), ({ task, remainingMs }) => remainingMs / (rates.get(task.id) ?? 1))
+    );
+    const step = Math.min(nextCompletion, greedyAt === null ? Infinity : greedyAt - now, getNextDueIn());
+    if (!Number.isFinite(step)) break; // скорость 0 — дальше ничего не произойдёт
+    now += step;
+
+    running.forEach(run => {
+      run.remainingMs -= step * (rates.get(run.task.id) ?? 1);
+      if (run.remainingMs > COMPLETION_EPSILON_MS) return;
+      running.delete(run.task.id);
+      incomplete.delete(run.task.id);
+      forecast.set(run.task.id, { startAt: run.startAt, finishAt: now });
+    });
+
+    if (greedyAt !== null && now >= greedyAt) {
+      greedyAt = null;
+      fillGreedy();
+      // Пул пуст, жадный проход ничего не взял и ждать некого — очередь не влезает в лимит вообще
+      if (!running.size && getNextDueIn() === Infinity) break;
+    }
+    fill();
+  }
+  return forecast;
+}
@@ -0,0 +1,8 @@
+import { TASK_SPEED_CONFIG } from '@/game/constants';
+
+/**
+ * Множитель скорости задач за свободное внимание.
+ * Формула: 1 + freeAttentionBonus × freeAttention
+ */
+export const getSpeedBonus = (freeAttention: number) =>
+  1 + TASK_SPEED_CONFIG.freeAttentionBonus * Math.max(0, freeAttention);
@@ -0,0 +1,17 @@
+/**
+ * Длительность в человекочитаемом виде: «2 ч 15 мин», «45 с».
+ * Две старшие ненулевые единицы — точнее для UI не нужно.
+ */
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const parts = [
+    { value: Math.floor(totalSeconds / 3600), unit: 'ч' },
+    { value: Math.floor((totalSeconds % 3600) / 60), unit: 'мин' },
+    { value: totalSeconds % 60, unit: 'с' },
+  ].filter(({ value }) => value > 0);
+  if (!parts.length) return '0 с';
+  return parts
+    .slice(0, 2)
+    .map(({ value, unit }) => `${value} ${unit}`)
+    .join(' ');
+}
@@ -1,6 +1,9 @@
 import { expose } from 'comlink';
 import { makeNoise2D, makeNoise3D } from 'open-simplex-noise';
 
+import { TERRAIN_CONFIG, TERRAIN_INDEX } from '@/game/constants';
+import type { TerrainIndexes } from '@/types/level';
+
 export type PerlinWorkerApi = typeof api;
 
 let noise2D: ReturnType<typeof makeNoise2D> | undefined;
@@ -65,6 +68,19 @@ function getNoise3D({ x, y, z }: { x: number; y: number; z: number }) {
   return total / maxValue;
 }
 
+/**
+ * Ландшафт клетки по сиду мира.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Шум не инициализирован (init не вызван) → -1, клетка пустая.
+ */
+function getTerrain(x: number, y: number): TerrainIndexes | -1 {
+  const height = getNoise2D({ x, y });
+  if (height === null) return -1;
+  if (height < TERRAIN_CONFIG.waterLevel) return TERRAIN_INDEX.water;
+  if (height <= TERRAIN_CONFIG.rockLevel) return TERRAIN_INDEX.soil;
+  const ore = getNoise3D({ x, y, z: TERRAIN_CONFIG.oreSlice }) ?? 0;
+  return ore > TERRAIN_CONFIG.oreLevel ? TERRAIN_INDEX.ore : TERRAIN_INDEX.rock;
+}
+
 const api = {
   async init(
     seed: number,
@@ -107,6 +123,29 @@ const api = {
     if (z > height * worldMaxHeight) return null;
     return getNoise3D({ x, y, z });
   },
+  /**
+   * Ландшафт прямоугольника тайлов — в формате getTileLayerData (строки по Y).
+   * Детерминирован: один сид и настройки → одна и та же карта, поэтому ландшафт не сохраняется.
+   * Уровни смещены по X на levelShift — у каждой глубины свой ландшафт.
+   */
+  async getTerrainLayerData({
+    levelIndex = 0,
+    widthTiles,
+    heightTiles,
+    offsetTilesX,
+    offsetTilesY,
+  }: {
+    levelIndex?: number;
+    widthTiles: number;
+    heightTiles: number;
+    offsetTilesX: number;
+    offsetTilesY: number;
+  }) {
+    const shift = levelIndex * TERRAIN_CONFIG.levelShift;
+    return Array.from({ length: heightTiles }, (_, y) =>
+      Array.from({ length: widthTiles }, (_, x) => getTerrain(x + offsetTilesX + shift, y + offsetTilesY))
+    );
+  },
 };
 
 expose(api);
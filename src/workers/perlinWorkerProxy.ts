@@ -0,0 +1,12 @@
+import { type Remote, wrap } from 'comlink';
+
+import type { PerlinWorkerApi } from './perlinWorker';
+
+let workerApi: Remote<PerlinWorkerApi> | null = null;
+export const getPerlinWorker = () =>
+  workerApi ??
+  (workerApi = wrap<PerlinWorkerApi>(
+    new Worker(new URL('./perlinWorker.ts', import.meta.url), {
+      type: 'module',
+    })
+  ));
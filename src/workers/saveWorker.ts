@@ -1,75 +1,248 @@
 import { expose } from 'comlink';
-import { type DBSchema, type IDBPDatabase, openDB } from 'idb';
+import { type DBSchema, type IDBPDatabase, type IDBPTransaction, type StoreNames, openDB } from 'idb';
 import { throttle } from 'lodash-es';
+import { nanoid } from 'nanoid';
 
-import { SAVE_CONFIG } from '@/game/constants';
+import {
+  ATTENTION_EVENTS,
+  type ActiveAttentionEvent,
+  type AttentionEventDefinition,
+  getEffectiveAttentionLimit,
+} from '@/game/attentionEvents';
+import { type BuildingPlacementError, getFootprint, getPlacementError } from '@/game/buildingRegistry';
+import {
+  EDIT_HISTORY_CONFIG,
+  GAME_CLOCK_CONFIG,
+  LEVEL_CONFIG,
+  OFFLINE_PROGRESS_CONFIG,
+  ROOM_CONFIG,
+  SAVE_CONFIG,
+  TASK_POOL_CONFIG,
+} from '@/game/constants';
+import { getResearchEffects, getResearchNode } from '@/game/researchTree';
+import { TILE_INDEX, getTileDefinition } from '@/game/tileRegistry';
 import type { TaskSaved } from '@/store/attentionStore';
-import type { TileIndexes } from '@/types/level';
+import type { TimeScale } from '@/store/gameClockStore';
+import type { Building, BuildingPlacement } from '@/types/building';
+import type { Level, LevelIndex, LevelInfo, TileIndexes } from '@/types/level';
+import type { Room, RoomWithCells } from '@/types/room';
+import { areNodesConnected } from '@/utils/connectivity';
+import { findEnclosedRegions } from '@/utils/roomDetection';
+import { getSpeedBonus } from '@/utils/taskSpeed';
 
 export type SaveWorkerApi = typeof api;
-type LevelIndex = number;
-type TaskPool = 'active' | 'paused' | 'resumed' | 'pending';
+
+/** Почему тайл нельзя удалить */
+export type TileRemovalError =
+  | { type: 'no_tile' }
+  | { type: 'stairs' }
+  | { type: 'building' }
+  | { type: 'last_tile' }
+  | { type: 'splits_level' };
+/** Почему захват нельзя записать (уровень изменился, пока шла задача) */
+export type TileCaptureError = { type: 'stairs' } | { type: 'building' } | { type: 'not_connected' };
+/** Правка клетки: индекс до и после (-1 — тайла игрока нет, виден ландшафт) */
+export type TileEdit = { X: number; Y: number; before: TileIndexes | -1; after: TileIndexes | -1 };
+/** Запись истории правок — одно действие игрока (захват клетки, штриха, удаление) */
+export type EditCommand = { levelIndex: LevelIndex; edits: TileEdit[] };
+/** Итог отмены/повтора: применённые клетки или почему правку применить нельзя */
+export type EditHistoryResult =
+  | { type: 'applied'; levelIndex: LevelIndex; tiles: Array<{ X: number; Y: number; index: TileIndexes | -1 }> }
+  | { type: 'empty' }
+  | { type: 'conflict' }
+  | { type: 'occupied' }
+  | { type: 'last_tile' }
+  | { type: 'splits_level' }
+  | { type: 'not_connected' };
+export type TaskPool = 'active' | 'paused' | 'resumed' | 'pending' | 'quarantine';
 
 /** допустимые значения координат от 0 до 65535 */
 // const tileKey = (x: number, y: number) => `${Math.floor(x)}_${Math.floor(y)}` as const;
 const tileKey = (x: number, y: number) => (Math.floor(x) << 16) | (Math.floor(y) & 0xffff);
-// const getX = (key: ReturnType<typeof tileKey>) => key >> 16;
-// const getY = (key: ReturnType<typeof tileKey>) => key & 0xffff;
+const getX = (key: ReturnType<typeof tileKey>) => key >> 16;
+/** Сдвиг туда-обратно восстанавливает знак отрицательных Y */
+const getY = (key: ReturnType<typeof tileKey>) => (key << 16) >> 16;
+/** Чанк клетки — координаты чанка упакованы как tileKey */
+const getChunkId = (key: ReturnType<typeof tileKey>) =>
+  tileKey(Math.floor(getX(key) / SAVE_CONFIG.chunkSize), Math.floor(getY(key) / SAVE_CONFIG.chunkSize));
+/** Ключ записи чанка в IndexedDB: уровень и координаты чанка */
+const getChunkDBKey = (levelIndex: LevelIndex, chunkId: ReturnType<typeof getChunkId>): ChunkDBKey => [
+  levelIndex,
+  getX(chunkId),
+  getY(chunkId),
+];
+/** По клетке на каждый чанк прямоугольника — чтобы загрузить чанки области */
+const getAreaChunkKeys = (X: number, Y: number, width: number, height: number) => {
+  const { chunkSize } = SAVE_CONFIG;
+  const keys: Array<ReturnType<typeof tileKey>> = [];
+  for (let chunkY = Math.floor(Y / chunkSize); chunkY <= Math.floor((Y + height - 1) / chunkSize); chunkY++)
+    for (let chunkX = Math.floor(X / chunkSize); chunkX <= Math.floor((X + width - 1) / chunkSize); chunkX++)
+      keys.push(tileKey(chunkX * chunkSize, chunkY * chunkSize));
+  return keys;
+};
+/** Все чанки уровня — диапазон ключей для getAll / count */
+const getLevelChunksRange = (levelIndex: LevelIndex) =>
+  IDBKeyRange.bound([levelIndex, -Infinity, -Infinity], [levelIndex, Infinity, Infinity]);
+/** Соседи клетки по четырём сторонам */
+const getNeighbourKeys = (key: ReturnType<typeof tileKey>) => {
+  const x = getX(key);
+  const y = getY(key);
+  return [tileKey(x + 1, y), tileKey(x - 1, y), tileKey(x, y + 1), tileKey(x, y - 1)];
+};
 
+type ChunkDBKey = [levelIndex: LevelIndex, chunkX: number, chunkY: number];
+type ChunkTiles = { tiles: Array<{ key: ReturnType<typeof tileKey>; index: TileIndexes }> };
 type Schema<T extends DBSchema> = T;
 type DungeonDB = Schema<{
-  levels: {
+  /** Тайлы уровней чанками SAVE_CONFIG.chunkSize × chunkSize (до v5 — store levels, запись на уровень) */
+  chunks: {
+    key: ChunkDBKey;
+    value: ChunkTiles;
+  };
+  buildings: {
     key: LevelIndex;
-    value: { tiles: Array<{ key: ReturnType<typeof tileKey>; index: TileIndexes }> };
+    value: { buildings: Building[] };
   };
   meta: {
     key: 'state';
-    value: { currentLevelIndex: LevelIndex };
+    value: { currentLevelIndex: LevelIndex; lastPersistAt?: number; seed?: number; levels?: LevelInfo[] };
   };
   tasks: {
     key: TaskPool;
     value: { tasks: TaskSaved[] };
   };
   dungeonState: {
-    key: 'attention';
-    value: { attentionLimit: number };
+    key: 'attention' | 'clock' | 'events' | 'research' | 'work' | 'history';
+    value:
+      | { attentionLimit: number }
+      | { isPaused: boolean; timeScale: TimeScale; gameTime?: number }
+      | { active: ActiveAttentionEvent[]; triggeredAt: { [id in string]: number } }
+      | { unlocked: string[] }
+      | { banked: { [workKey in string]: number } }
+      | { undo: EditCommand[]; redo: EditCommand[] };
   };
 }>;
 
 // Внутреннее хранилище воркера
 let currentLevelIndex: LevelIndex = 0;
+/** Время последнего сохранения прошлой сессии (Date.now) — для догоняющей симуляции */
+let lastPersistAt: number | undefined;
+/** Сид мира: из него perlinWorker генерирует ландшафт незастроенных клеток */
+let worldSeed: number | undefined;
+/** Описания уровней (имя, глубина) — хранятся в meta; тайлы уровней — в chunks */
+const levelInfos = new Map<LevelIndex, Level>();
+/** Тайлы загруженных чанков уровней (см. getLevelChunks / getLevel) */
 const levels = new Map<LevelIndex, Map<ReturnType<typeof tileKey>, TileIndexes>>();
-const dirtyLevels = new Set<LevelIndex>();
+/** Загруженные чанки уровней; уровни, загруженные целиком */
+const loadedChunks = new Map<LevelIndex, Set<ReturnType<typeof getChunkId>>>();
+const fullyLoadedLevels = new Set<LevelIndex>();
+/** Изменённые чанки: сохраняются только они */
+const dirtyChunks = new Map<LevelIndex, Set<ReturnType<typeof getChunkId>>>();
+/** Постройки уровней (id → постройка) — грузятся вместе с тайлами уровня */
+const levelBuildings = new Map<LevelIndex, Map<string, Building>>();
+const dirtyBuildings = new Set<LevelIndex>();
+/**
+ * Найденные комнаты уровней: id → клетки и периметр, клетка → id комнаты.
+ * Не сохраняются — находятся заливкой при запросе клетки (getRoomAt) и обновляются markDirty по изменённым клеткам.
+ * scanned — уровень пройден целиком (getRooms): известны все его комнаты.
+ */
+const levelRooms = new Map<
+  LevelIndex,
+  {
+    rooms: Map<string, { cells: Array<ReturnType<typeof tileKey>>; perimeter: number }>;
+    cellRooms: Map<ReturnType<typeof tileKey>, string>;
+    scanned: boolean;
+  }
+>();
 
 // Tasks хранилище
 const activeTasks = new Map<string, TaskSaved>();
 const pausedTasks = new Map<string, TaskSaved>();
 const resumedTasks: TaskSaved[] = [];
 const pendingTasks: TaskSaved[] = [];
+/** Задачи, которые main thread не смог провалидировать (тип не зарегистрирован, payload не по схеме) */
+const quarantinedTasks: TaskSaved[] = [];
 
 // Dirty-флаги для атомарного сохранения
 let dirtyMeta = false;
 let dirtyAttention = false;
+let dirtyClock = false;
+let dirtyEvents = false;
+let dirtyResearch = false;
+let dirtyWork = false;
+let dirtyHistory = false;
 let dirtyActiveTasks = false;
 let dirtyPausedTasks = false;
 let dirtyResumedTasks = false;
 let dirtyPendingTasks = false;
+let dirtyQuarantinedTasks = false;
 
 let attentionLimit = 8;
+/** Часы: пауза и скорость — от игрока, gameTime — накопленное игровое время движка задач (мс) */
+const gameClock: { isPaused: boolean; timeScale: TimeScale; gameTime: number } = {
+  isPaused: false,
+  timeScale: 1,
+  gameTime: 0,
+};
+/** События внимания: идущие и время последнего срабатывания каждого (gameTime) */
+const attentionEvents: { active: ActiveAttentionEvent[]; triggeredAt: { [id in string]: number } } = {
+  active: [],
+  triggeredAt: {},
+};
+/** Открытые исследования (id узлов) и их суммарные эффекты */
+let unlockedResearch: string[] = [];
+let researchEffects = getResearchEffects(unlockedResearch);
+/** Работа, возвращённая при отмене, по цели задачи (workKey) — мс при скорости ×1 */
+let workBank: { [workKey in string]: number } = {};
+/** История правок карты: undo — от старых к новым, redo — отменённые (последняя отменённая в конце) */
+const editHistory: { undo: EditCommand[]; redo: EditCommand[] } = { undo: [], redo: [] };
 
+/** Завести уровень в памяти: постройки загружаются сразу, тайлы — чанками по запросу */
 const loadLevel = async (dungeonDB: PromiseLike<IDBPDatabase<DungeonDB>>, levelIndex: LevelIndex) =>
   dungeonDB
-    .then(db => db.get('levels', levelIndex))
-    .then(level => {
-      levels.set(levelIndex, new Map(level?.tiles.map(({ key, index }) => [key, index])));
+    .then(db => db.get('buildings', levelIndex))
+    .then(buildings => {
+      if (levels.has(levelIndex)) return;
+      levels.set(levelIndex, new Map());
+      loadedChunks.set(levelIndex, new Set());
+      levelBuildings.set(levelIndex, new Map(buildings?.buildings.map(building => [building.id, building])));
     });
+
+/**
+ * v4 → v5: уровни из store levels (запись на уровень) — в store chunks.
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Работает внутри транзакции обновления — ждать можно только её запросы
+ * - Ошибка переноса прерывает транзакцию: версия БД остаётся прежней, levels не теряется, openDB отклоняется
+ */
+async function migrateLevelsToChunks(
+  database: IDBPDatabase<DungeonDB>,
+  transaction: IDBPTransaction<DungeonDB, Array<StoreNames<DungeonDB>>, 'versionchange'>
+) {
+  const legacyStore = transaction.objectStore('levels' as never);
+  const [levelIndexes, records] = (await Promise.all([legacyStore.getAllKeys(), legacyStore.getAll()])) as [
+    LevelIndex[],
+    ChunkTiles[],
+  ];
+  const chunks = new Map<string, { key: ChunkDBKey; value: ChunkTiles }>();
+  records.forEach(({ tiles }, i) =>
+    tiles.forEach(tile => {
+      const key = getChunkDBKey(levelIndexes[i], getChunkId(tile.key));
+      const chunk = chunks.get(key.join(':')) ?? { key, value: { tiles: [] } };
+      chunk.value.tiles.push(tile);
+      chunks.set(key.join(':'), chunk);
+    })
+  );
+  await Promise.all(Array.from(chunks.values(), ({ key, value }) => transaction.objectStore('chunks').put(value, key)));
+  database.deleteObjectStore('levels' as never);
+}
+
 // Автоинициализация при загрузке модуля
 const dungeonDB = (() => {
-  const dbPromise = openDB<DungeonDB>('dungeon-builder', 3, {
-    upgrade(database, oldVersion) {
+  const dbPromise = openDB<DungeonDB>('dungeon-builder', 5, {
+    upgrade(database, oldVersion, _newVersion, transaction) {
       // v0 → v1: базовые сторы
       if (oldVersion < 1) {
-        database.createObjectStore('levels');
+        database.createObjectStore('levels' as never);
         database.createObjectStore('meta');
       }
       // v1 → v2: capturing и dungeonState
@@ -84,23 +257,68 @@ const dungeonDB = (() => {
         }
         database.createObjectStore('tasks');
       }
+      // v3 → v4: постройки уровней
+      if (oldVersion < 4) {
+        database.createObjectStore('buildings');
+      }
+      // v4 → v5: тайлы уровней чанками (v3 и v4 — переносом из levels)
+      if (oldVersion < 5) {
+        database.createObjectStore('chunks');
+        migrateLevelsToChunks(database, transaction).catch(error => {
+          console.error('[SaveWorker] levels → chunks migration failed:', error);
+          // Прерванная транзакция отклоняет openDB — ошибка обрабатывается там, done не нужен
+          void transaction.done.catch(() => undefined);
+          try {
+            transaction.abort();
+          } catch {
+            // Ошибка запроса уже прервала транзакцию сама
+          }
+        });
+      }
     },
   });
 
   return Promise.all([
     dbPromise
       .then(db => db.get('meta', 'state'))
-      .then(state => (currentLevelIndex = state?.currentLevelIndex ?? 0))
+      .then(state => {
+        lastPersistAt = state?.lastPersistAt;
+        worldSeed = state?.seed;
+        state?.levels?.forEach(({ index, ...level }) => levelInfos.set(index, level));
+        // Сохранение до появления уровней — есть только поверхность
+        if (!levelInfos.has(0)) levelInfos.set(0, createLevelInfo(0));
+        return (currentLevelIndex = state?.currentLevelIndex ?? 0);
+      })
       .then(currentLevelIndex => loadLevel(dbPromise, currentLevelIndex)),
     dbPromise
       .then(db => db.get('dungeonState', 'attention'))
-      .then(attention => (attentionLimit = attention?.attentionLimit ?? 8)),
+      .then(attention => (attentionLimit = attention && 'attentionLimit' in attention ? attention.attentionLimit : 8)),
+    dbPromise
+      .then(db => db.get('dungeonState', 'clock'))
+      .then(clock => clock && 'timeScale' in clock && Object.assign(gameClock, clock)),
+    dbPromise
+      .then(db => db.get('dungeonState', 'events'))
+      .then(events => events && 'active' in events && Object.assign(attentionEvents, events)),
+    dbPromise
+      .then(db => db.get('dungeonState', 'research'))
+      .then(research => {
+        if (!research || !('unlocked' in research)) return;
+        unlockedResearch = research.unlocked;
+        researchEffects = getResearchEffects(unlockedResearch);
+      }),
+    dbPromise
+      .then(db => db.get('dungeonState', 'work'))
+      .then(work => work && 'banked' in work && (workBank = work.banked)),
+    dbPromise
+      .then(db => db.get('dungeonState', 'history'))
+      .then(history => history && 'undo' in history && Object.assign(editHistory, history)),
     dbPromise.then(async db => {
-      const [active, paused, resumed, pending] = await Promise.all([
+      const [active, paused, resumed, pending, quarantine] = await Promise.all([
         db.get('tasks', 'active'),
         db.get('tasks', 'paused'),
         db.get('tasks', 'resumed'),
         db.get('tasks', 'pending'),
+        db.get('tasks', 'quarantine'),
       ]);
       if (active?.tasks) {
         active.tasks.forEach(task => activeTasks.set(task.id, task));
@@ -114,95 +332,568 @@ const dungeonDB = (() => {
       if (pending?.tasks) {
         pendingTasks.push(...pending.tasks);
       }
+      if (quarantine?.tasks) {
+        quarantinedTasks.push(...quarantine.tasks);
+      }
     }),
-  ]).then(() => dbPromise);
+  ]).then(
+    () => dbPromise,
+    error => {
+      // Сохранение не открылось (в т.ч. прерванное обновление) — API не работает с пустым состоянием поверх него
+      console.error('[SaveWorker] failed to open the save:', error);
+      throw error;
+    }
+  );
 })();
 const loadLevelFromDB = loadLevel.bind(undefined, dungeonDB);
 
-async function getLevel(levelIndex: LevelIndex) {
+/** Тайлы уровня в памяти (без загрузки чанков) */
+async function getLevelEntry(levelIndex: LevelIndex) {
   if (!levels.has(levelIndex)) await loadLevelFromDB(levelIndex);
   const level = levels.get(levelIndex);
   if (!level) throw new Error('unknown load level error');
   return level;
 }
 
+/**
+ * Уровень с загруженными чанками клеток keys — для правок и запросов одной области.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Чанк, загруженный параллельным запросом, не перезаписывается — правки в памяти новее записи в БД.
+ */
+async function getLevelChunks(levelIndex: LevelIndex, keys: Iterable<ReturnType<typeof tileKey>>) {
+  const levelMap = await getLevelEntry(levelIndex);
+  const loaded = loadedChunks.get(levelIndex)!;
+  if (fullyLoadedLevels.has(levelIndex)) return levelMap;
+  const missing = Array.from(new Set(Array.from(keys, getChunkId))).filter(chunkId => !loaded.has(chunkId));
+  if (!missing.length) return levelMap;
+
+  const store = (await dungeonDB).transaction('chunks').store;
+  const records = await Promise.all(missing.map(chunkId => store.get(getChunkDBKey(levelIndex, chunkId))));
+  missing.forEach((chunkId, i) => {
+    if (loaded.has(chunkId)) return;
+    loaded.add(chunkId);
+    records[i]?.tiles.forEach(({ key, index }) => levelMap.set(key, index));
+  });
+  return levelMap;
+}
+
+/** Постройки уровня (уровень загружается вместе с ними) */
+async function getBuildings(levelIndex: LevelIndex) {
+  await getLevelEntry(levelIndex);
+  const buildings = levelBuildings.get(levelIndex);
+  if (!buildings) throw new Error('unknown load level error');
+  return buildings;
+}
+
+/** Клетки уровня, занятые постройками */
+async function getOccupiedKeys(levelIndex: LevelIndex) {
+  const buildings = await getBuildings(levelIndex);
+  return new Set(
+    Array.from(buildings.values()).flatMap(building => getFootprint(building).map(({ X, Y }) => tileKey(X, Y)))
+  );
+}
+
+/**
+ * Пуст ли уровень — без загрузки его чанков.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Тайлы в памяти (ещё не сохранённые) считаются; пустые чанки в БД не хранятся.
+ */
+async function isLevelEmpty(levelIndex: LevelIndex) {
+  const db = await dungeonDB;
+  const levelMap = await getLevelEntry(levelIndex);
+  if (levelMap.size || fullyLoadedLevels.has(levelIndex)) return !levelMap.size;
+  return !(await db.count('chunks', getLevelChunksRange(levelIndex)));
+}
+
+/** Чанк клетки уже в памяти — проверка без await */
+const isChunkLoaded = (levelIndex: LevelIndex, key: ReturnType<typeof tileKey>) =>
+  fullyLoadedLevels.has(levelIndex) || !!loadedChunks.get(levelIndex)?.has(getChunkId(key));
+
+/**
+ * Связаны ли тайлы starts между собой по тайлам isTile (см. areNodesConnected).
+ * ГРАНИЧНЫЕ СЛУЧАИ: Чанки догружаются по мере роста заливок — уровень целиком не загружается.
+ */
+const areTilesConnected = (
+  levelIndex: LevelIndex,
+  starts: Array<ReturnType<typeof tileKey>>,
+  isTile: (key: ReturnType<typeof tileKey>) => boolean
+) =>
+  areNodesConnected(starts, {
+    isNode: isTile,
+    getNeighbours: getNeighbourKeys,
+    prepare: keys =>
+      keys.every(key => isChunkLoaded(levelIndex, key)) ? undefined : getLevelChunks(levelIndex, keys).then(() => {}),
+  });
+
+/**
+ * Комнаты среди областей пола от seeds: пол — floor, стена — solid тайл (см. реестр тайлов).
+ * ГРАНИЧНЫЕ СЛУЧАИ: Клетка незагруженного чанка — не стена (область не замкнута); такие клетки собираются в missing.
+ */
+function findLevelRegions(
+  levelIndex: LevelIndex,
+  seeds: Iterable<ReturnType<typeof tileKey>>,
+  missing = new Set<ReturnType<typeof tileKey>>()
+) {
+  const levelMap = levels.get(levelIndex)!;
+  const getIndex = (key: ReturnType<typeof tileKey>) => {
+    if (isChunkLoaded(levelIndex, key)) return levelMap.get(key);
+    missing.add(key);
+  };
+  return findEnclosedRegions(seeds, {
+    isFloor: key => getIndex(key) === TILE_INDEX.floor,
+    isWall: key => {
+      const index = getIndex(key);
+      return index !== undefined && !!getTileDefinition(index)?.solid;
+    },
+    getNeighbours: getNeighbourKeys,
+    maxArea: ROOM_CONFIG.maxArea,
+  });
+}
+
+/** Найденные комнаты уровня (пустые, пока их не запрашивали) */
+function getRoomState(levelIndex: LevelIndex) {
+  if (!levelRooms.has(levelIndex))
+    levelRooms.set(levelIndex, { rooms: new Map(), cellRooms: new Map(), scanned: false });
+  return levelRooms.get(levelIndex)!;
+}
+
+/** Запомнить найденную комнату; id — новый, если не передан */
+function addRoom(
+  levelIndex: LevelIndex,
+  region: { cells: Array<ReturnType<typeof tileKey>>; perimeter: number },
+  id: string = nanoid()
+) {
+  const state = getRoomState(levelIndex);
+  state.rooms.set(id, region);
+  region.cells.forEach(key => state.cellRooms.set(key, id));
+  return id;
+}
+
+/**
+ * Комната клетки — заливкой от неё.
+ *
+ * АЛГОРИТМ:
+ * 1. Заливка по загруженным чанкам
+ * 2. Упёрлась в незагруженные чанки — они догружаются, заливка повторяется
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ: Заливка ограничена maxArea — загружаются только чанки вокруг комнаты, не весь уровень.
+ * @returns id комнаты или undefined (не пол или пол не замкнут)
+ */
+async function findRoomAt(levelIndex: LevelIndex, key: ReturnType<typeof tileKey>) {
+  await getLevelChunks(levelIndex, [key, ...getNeighbourKeys(key)]);
+  for (;;) {
+    const known = levelRooms.get(levelIndex)?.cellRooms.get(key);
+    if (known !== undefined) return known;
+    const missing = new Set<ReturnType<typeof tileKey>>();
+    const [region] = findLevelRegions(levelIndex, [key], missing);
+    if (!missing.size) return region && addRoom(levelIndex, region);
+    await getLevelChunks(levelIndex, missing);
+  }
+}
+
+/**
+ * Все комнаты уровня — заливкой от всех его клеток.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Единственный запрос, которому нужен весь уровень; дальше список держит updateRooms.
+ */
+async function getLevelRooms(levelIndex: LevelIndex) {
+  const state = getRoomState(levelIndex);
+  if (state.scanned) return state;
+  const levelMap = await getLevel(levelIndex);
+  for (const region of findLevelRegions(levelIndex, levelMap.keys()))
+    if (!state.cellRooms.has(region.cells[0])) addRoom(levelIndex, region);
+  state.scanned = true;
+  return state;
+}
+
+/**
+ * Обновить комнаты уровня после правки.
+ *
+ * АЛГОРИТМ:
+ * 1. Затронутые клетки — изменённые и их соседи: комната зависит только от своих клеток и стен вокруг
+ * 2. Комнаты, задевающие затронутые клетки, удаляются
+ * 3. Заливка от затронутых клеток находит новые комнаты
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Комнаты уровня ещё не запрашивались — нечего обновлять (найдутся при первом запросе)
+ * - Комната, упирающаяся в незагруженные чанки, не находится — её найдёт findRoomAt при запросе клетки
+ * - Новая комната наследует id удалённой, с которой пересекается: комната, выросшая или разделённая стеной, не теряет id
+ */
+function updateRooms(levelIndex: LevelIndex, changedKeys: Iterable<ReturnType<typeof tileKey>>) {
+  const state = levelRooms.get(levelIndex);
+  if (!state) return;
+  const touched = new Set<ReturnType<typeof tileKey>>();
+  for (const key of changedKeys) {
+    touched.add(key);
+    getNeighbourKeys(key).forEach(neighbour => touched.add(neighbour));
+  }
+
+  // Каждая уцелевшая часть удалённой комнаты касается изменённой клетки — заливка от touched её найдёт
+  const previousRooms = new Map<ReturnType<typeof tileKey>, string>();
+  for (const key of touched) {
+    const id = state.cellRooms.get(key);
+    const room = id === undefined ? undefined : state.rooms.get(id);
+    if (id === undefined || !room) continue;
+    room.cells.forEach(cell => {
+      previousRooms.set(cell, id);
+      state.cellRooms.delete(cell);
+    });
+    state.rooms.delete(id);
+  }
+
+  for (const region of findLevelRegions(levelIndex, touched)) {
+    const inherited = region.cells.map(key => previousRooms.get(key)).find(id => id !== undefined);
+    addRoom(levelIndex, region, inherited && !state.rooms.has(inherited) ? inherited : undefined);
+  }
+}
+
+/** Комната для API: площадь и ограничивающий прямоугольник по клеткам */
+function toRoom(
+  levelIndex: LevelIndex,
+  id: string,
+  { cells, perimeter }: { cells: Array<ReturnType<typeof tileKey>>; perimeter: number }
+): Room {
+  const xs = cells.map(getX);
+  const ys = cells.map(getY);
+  const X = Math.min(...xs);
+  const Y = Math.min(...ys);
+  return {
+    id,
+    levelIndex,
+    area: cells.length,
+    bounds: { X, Y, width: Math.max(...xs) - X + 1, height: Math.max(...ys) - Y + 1 },
+    perimeter,
+  };
+}
+
+/**
+ * Записать действие игрока в историю правок.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Клетки без изменений не пишутся; новая правка сбрасывает стек повтора.
+ */
+function recordEdits(levelIndex: LevelIndex, edits: TileEdit[]) {
+  const changed = edits.filter(({ before, after }) => before !== after);
+  if (!changed.length) return;
+  editHistory.undo.push({ levelIndex, edits: changed });
+  editHistory.undo.splice(0, editHistory.undo.length - EDIT_HISTORY_CONFIG.maxCommands);
+  editHistory.redo.length = 0;
+  markHistoryDirty();
+}
+
+/**
+ * Проверить правку истории по тем же правилам, что и обычные правки.
+ *
+ * АЛГОРИТМ:
+ * 1. Каждая клетка должна быть в состоянии from — иначе карту изменили мимо истории (лестница)
+ * 2. Клетки под постройками не меняются (как building у removeTile)
+ * 3. Уровень после правки не пуст (как last_tile у removeTile)
+ * 4. Уровень после правки связен: новые клетки цепляются за уровень (isTileConnected),
+ *    удалённые не разрывают его на острова (splits_level у removeTile)
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Уровень до правки связен — каждая его часть после правки касается изменённой клетки.
+ *   Поэтому связность проверяется от новых клеток и соседей удалённых, с догрузкой чанков, а не по всему уровню
+ * - Удалённые клетки без соседей-тайлов вне правки — весь уровень (он связен): last_tile
+ */
+async function validateHistoryEdits(
+  levelIndex: LevelIndex,
+  edits: Array<{ key: ReturnType<typeof tileKey>; from: TileIndexes | -1; to: TileIndexes | -1 }>
+): Promise<Exclude<EditHistoryResult, { type: 'applied' | 'empty' }> | undefined> {
+  const levelMap = await getLevelChunks(
+    levelIndex,
+    edits.flatMap(({ key }) => [key, ...getNeighbourKeys(key)])
+  );
+  if (edits.some(({ key, from }) => (levelMap.get(key) ?? -1) !== from)) return { type: 'conflict' };
+  const occupied = await getOccupiedKeys(levelIndex);
+  if (edits.some(({ key }) => occupied.has(key))) return { type: 'occupied' };
+  const removed = new Set(edits.filter(({ to }) => to === -1).map(({ key }) => key));
+  const added = new Set(edits.filter(({ from }) => from === -1).map(({ key }) => key));
+  if (!removed.size && !added.size) return;
+
+  // Тайлы до правки, уцелевшие рядом с изменёнными клетками
+  const kept = new Set(
+    [...removed, ...added].flatMap(key =>
+      getNeighbourKeys(key).filter(neighbour => levelMap.has(neighbour) && !removed.has(neighbour))
+    )
+  );
+  if (!added.size && !kept.size) return { type: 'last_tile' };
+  // Только новые клетки, и ни одна не касается уровня — остров
+  if (!removed.size && !kept.size) return { type: 'not_connected' };
+
+  const isTile = (key: ReturnType<typeof tileKey>) => added.has(key) || (levelMap.has(key) && !removed.has(key));
+  if (!(await areTilesConnected(levelIndex, [...added, ...kept], isTile)))
+    return removed.size ? { type: 'splits_level' } : { type: 'not_connected' };
+}
+
+/**
+ * Шаги связности пакета клеток с уровнем.
+ *
+ * АЛГОРИТМ:
+ * 1. Шаг 0 — клетки, занятые тайлом игрока или соседние с ним (как в isTileConnected)
+ * 2. BFS по слоям от них по клеткам пакета: клетка шага d касается клетки шага d - 1
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ: Клетки по возрастанию шага можно записывать частями — каждая часть цепляется за уже записанные.
+ * @returns клетка пакета → шаг; несвязанных клеток в карте нет
+ */
+function getBatchDepths(
+  levelMap: Map<ReturnType<typeof tileKey>, TileIndexes>,
+  keys: Array<ReturnType<typeof tileKey>>
+) {
+  const batch = new Set(keys);
+  let layer = keys.filter(key => levelMap.has(key) || getNeighbourKeys(key).some(neighbour => levelMap.has(neighbour)));
+  const depths = new Map(layer.map(key => [key, 0]));
+  for (let depth = 1; layer.length; depth++) {
+    const next: Array<ReturnType<typeof tileKey>> = [];
+    for (const key of layer)
+      for (const neighbour of getNeighbourKeys(key)) {
+        if (!batch.has(neighbour) || depths.has(neighbour)) continue;
+        depths.set(neighbour, depth);
+        next.push(neighbour);
+      }
+    layer = next;
+  }
+  return depths;
+}
+
+/**
+ * Проверить захват пакета клеток перед записью — те же правила, что у предпросмотра штриха.
+ * ГРАНИЧНЫЕ СЛУЧАИ: Связность — пакетом (getBatchDepths): дальние клетки цепляются за уровень через ближние.
+ * @returns ошибка или undefined, если пакет можно записать
+ */
+async function getCaptureError(
+  levelIndex: LevelIndex,
+  keys: Array<ReturnType<typeof tileKey>>
+): Promise<TileCaptureError | undefined> {
+  const levelMap = await getLevelChunks(
+    levelIndex,
+    keys.flatMap(key => [key, ...getNeighbourKeys(key)])
+  );
+  const isStairs = (key: ReturnType<typeof tileKey>) => {
+    const index = levelMap.get(key);
+    return index === TILE_INDEX.stairsDown || index === TILE_INDEX.stairsUp;
+  };
+  if (keys.some(isStairs)) return { type: 'stairs' };
+  const occupied = await getOccupiedKeys(levelIndex);
+  if (keys.some(key => occupied.has(key))) return { type: 'building' };
+  const depths = getBatchDepths(levelMap, keys);
+  if (keys.some(key => !depths.has(key))) return { type: 'not_connected' };
+}
+
+/**
+ * Отменить (undo) или повторить (redo) последнюю правку из истории.
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Правка не прошла проверку — остаётся в стеке (игрок может расчистить путь и повторить)
+ * - conflict — правка выбрасывается: клетки изменены мимо истории, применить её уже нельзя
+ */
+async function applyHistory(direction: 'undo' | 'redo'): Promise<EditHistoryResult> {
+  const [from, to] = direction === 'undo' ? [editHistory.undo, editHistory.redo] : [editHistory.redo, editHistory.undo];
+  const command = from.at(-1);
+  if (!command) return { type: 'empty' };
+  const edits = command.edits.map(({ X, Y, before, after }) => ({
+    X,
+    Y,
+    key: tileKey(X, Y),
+    from: direction === 'undo' ? after : before,
+    to: direction === 'undo' ? before : after,
+  }));
+  const error = await validateHistoryEdits(command.levelIndex, edits);
+  if (error) {
+    if (error.type === 'conflict') {
+      from.pop();
+      markHistoryDirty();
+    }
+    return error;
+  }
+
+  const levelMap = await getLevelChunks(
+    command.levelIndex,
+    edits.map(({ key }) => key)
+  );
+  edits.forEach(({ key, to: index }) => (index === -1 ? levelMap.delete(key) : levelMap.set(key, index)));
+  markDirty(
+    command.levelIndex,
+    edits.map(({ key }) => key)
+  );
+  to.push(from.pop()!);
+  markHistoryDirty();
+  return {
+    type: 'applied',
+    levelIndex: command.levelIndex,
+    tiles: edits.map(({ X, Y, to: index }) => ({ X, Y, index })),
+  };
+}
+
+/** Описание нового уровня по умолчанию: имя по глубине */
+function createLevelInfo(levelIndex: LevelIndex): Level {
+  return {
+    name: levelIndex === 0 ? LEVEL_CONFIG.surfaceName : `Уровень ${levelIndex}`,
+    metadata: { depth: levelIndex },
+    createdAt: Date.now(),
+  };
+}
+
+const getLevelInfos = (): LevelInfo[] =>
+  Array.from(levelInfos, ([index, level]) => ({ ...level, index })).sort((a, b) => a.index - b.index);
+
+/** Уровень целиком — только для запросов по всему уровню (список комнат getRooms); правки грузят свои чанки */
+async function getLevel(levelIndex: LevelIndex) {
+  const levelMap = await getLevelEntry(levelIndex);
+  if (fullyLoadedLevels.has(levelIndex)) return levelMap;
+
+  const store = (await dungeonDB).transaction('chunks').store;
+  const range = getLevelChunksRange(levelIndex);
+  const [keys, records] = await Promise.all([store.getAllKeys(range), store.getAll(range)]);
+  const loaded = loadedChunks.get(levelIndex)!;
+  keys.forEach(([, chunkX, chunkY], i) => {
+    const chunkId = tileKey(chunkX, chunkY);
+    if (loaded.has(chunkId)) return;
+    loaded.add(chunkId);
+    records[i].tiles.forEach(({ key, index }) => levelMap.set(key, index));
+  });
+  fullyLoadedLevels.add(levelIndex);
+  return levelMap;
+}
+
 // ============================================================
 // === ЕДИНОЕ АТОМАРНОЕ СОХРАНЕНИЕ ===
 // ============================================================
 
 async function persistAll() {
   const hasDirty =
-    dirtyLevels.size ||
+    dirtyChunks.size ||
+    dirtyBuildings.size ||
     dirtyMeta ||
     dirtyAttention ||
+    dirtyClock ||
+    dirtyEvents ||
+    dirtyResearch ||
+    dirtyWork ||
+    dirtyHistory ||
     dirtyActiveTasks ||
     dirtyPausedTasks ||
     dirtyResumedTasks ||
-    dirtyPendingTasks;
+    dirtyPendingTasks ||
+    dirtyQuarantinedTasks;
   if (!hasDirty) return;
 
   const db = await dungeonDB;
   // Повторная проверка после await
   if (
-    !dirtyLevels.size &&
+    !dirtyChunks.size &&
+    !dirtyBuildings.size &&
     !dirtyMeta &&
     !dirtyAttention &&
+    !dirtyClock &&
+    !dirtyEvents &&
+    !dirtyResearch &&
+    !dirtyWork &&
+    !dirtyHistory &&
     !dirtyActiveTasks &&
     !dirtyPausedTasks &&
     !dirtyResumedTasks &&
-    !dirtyPendingTasks
+    !dirtyPendingTasks &&
+    !dirtyQuarantinedTasks
   )
     return;
 
   // Собрать данные ДО очистки флагов
-  const levelData = Array.from(dirtyLevels, levelIndex => ({
+  const chunkData = Array.from(dirtyChunks).flatMap(([levelIndex, chunkIds]) =>
+    Array.from(chunkIds, chunkId => ({
+      key: getChunkDBKey(levelIndex, chunkId),
+      tiles: getChunkTiles(levelIndex, chunkId),
+    }))
+  );
+  const buildingData = Array.from(dirtyBuildings, levelIndex => ({
     levelIndex,
-    tiles: Array.from(levels.get(levelIndex)?.entries() ?? []).map(([key, index]) => ({ key, index })),
+    buildings: Array.from(levelBuildings.get(levelIndex)?.values() ?? []),
   }));
-  const saveMeta = dirtyMeta;
   const saveAttention = dirtyAttention;
+  const saveClock = dirtyClock;
+  const saveEvents = dirtyEvents;
+  const saveResearch = dirtyResearch;
+  const saveWork = dirtyWork;
+  const saveHistory = dirtyHistory;
   const saveActiveTasks = dirtyActiveTasks;
   const savePausedTasks = dirtyPausedTasks;
   const saveResumedTasks = dirtyResumedTasks;
   const savePendingTasks = dirtyPendingTasks;
-  const metaValue = currentLevelIndex;
+  const saveQuarantinedTasks = dirtyQuarantinedTasks;
+  const metaValue = { currentLevelIndex, seed: worldSeed, levels: getLevelInfos() };
   const attentionValue = attentionLimit;
+  const clockValue = { ...gameClock };
+  const researchValue = { unlocked: [...unlockedResearch] };
+  const workValue = { banked: { ...workBank } };
+  const historyValue = { undo: [...editHistory.undo], redo: [...editHistory.redo] };
+  const eventsValue = { active: [...attentionEvents.active], triggeredAt: { ...attentionEvents.triggeredAt } };
 
   // Очистить флаги
-  dirtyLevels.clear();
+  dirtyChunks.clear();
+  dirtyBuildings.clear();
   dirtyMeta = false;
   dirtyAttention = false;
+  dirtyClock = false;
+  dirtyEvents = false;
+  dirtyResearch = false;
+  dirtyWork = false;
+  dirtyHistory = false;
   dirtyActiveTasks = false;
   dirtyPausedTasks = false;
   dirtyResumedTasks = false;
   dirtyPendingTasks = false;
+  dirtyQuarantinedTasks = false;
 
-  // Собрать блокируемые сторы
-  const keys: Set<keyof DungeonDB> = new Set();
-  if (levelData.length) keys.add('levels');
-  if (saveMeta) keys.add('meta');
-  if (saveAttention) keys.add('dungeonState');
-  if (saveActiveTasks || savePausedTasks || saveResumedTasks || savePendingTasks) keys.add('tasks');
+  // Собрать блокируемые сторы (meta — всегда: хранит время сохранения)
+  const keys: Set<keyof DungeonDB> = new Set(['meta']);
+  if (chunkData.length) keys.add('chunks');
+  if (buildingData.length) keys.add('buildings');
+  if (saveAttention || saveClock || saveEvents || saveResearch || saveWork || saveHistory) keys.add('dungeonState');
+  if (saveActiveTasks || savePausedTasks || saveResumedTasks || savePendingTasks || saveQuarantinedTasks)
+    keys.add('tasks');
 
   // Одна транзакция для всех store
   const tx = db.transaction(Array.from(keys), 'readwrite');
 
-  // Levels
-  for (const { tiles, levelIndex } of levelData) {
-    if (tiles.length) tx.objectStore('levels').put({ tiles }, levelIndex);
-    else tx.objectStore('levels').delete(levelIndex);
+  // Chunks
+  for (const { tiles, key } of chunkData) {
+    if (tiles.length) tx.objectStore('chunks').put({ tiles }, key);
+    else tx.objectStore('chunks').delete(key);
   }
 
-  // Meta
-  if (saveMeta) {
-    tx.objectStore('meta').put({ currentLevelIndex: metaValue }, 'state');
+  // Buildings
+  for (const { buildings, levelIndex } of buildingData) {
+    if (buildings.length) tx.objectStore('buildings').put({ buildings }, levelIndex);
+    else tx.objectStore('buildings').delete(levelIndex);
   }
 
+  // Meta
+  tx.objectStore('meta').put({ ...metaValue, lastPersistAt: Date.now() }, 'state');
+
   // Attention
   if (saveAttention) {
     tx.objectStore('dungeonState').put({ attentionLimit: attentionValue }, 'attention');
   }
 
+  // Game clock
+  if (saveClock) {
+    tx.objectStore('dungeonState').put(clockValue, 'clock');
+  }
+
+  // Attention events
+  if (saveEvents) {
+    tx.objectStore('dungeonState').put(eventsValue, 'events');
+  }
+
+  // Research
+  if (saveResearch) {
+    tx.objectStore('dungeonState').put(researchValue, 'research');
+  }
+
+  // Work bank
+  if (saveWork) {
+    tx.objectStore('dungeonState').put(workValue, 'work');
+  }
+
+  // Edit history
+  if (saveHistory) {
+    tx.objectStore('dungeonState').put(historyValue, 'history');
+  }
+
   // Tasks
   if (saveActiveTasks) {
     const tasks = Array.from(activeTasks.values());
@@ -222,6 +913,10 @@ async function persistAll() {
     if (pendingTasks.length) tx.objectStore('tasks').put({ tasks: pendingTasks }, 'pending');
     else tx.objectStore('tasks').delete('pending');
   }
+  if (saveQuarantinedTasks) {
+    if (quarantinedTasks.length) tx.objectStore('tasks').put({ tasks: quarantinedTasks }, 'quarantine');
+    else tx.objectStore('tasks').delete('quarantine');
+  }
 
   await tx.done;
 }
@@ -231,8 +926,33 @@ const throttledPersist = throttle(persistAll, SAVE_CONFIG.autoSaveInterval, {
   trailing: true,
 });
 
-function markDirty(levelIndex: LevelIndex) {
-  dirtyLevels.add(levelIndex);
+/** Тайлы чанка уровня — для записи чанка */
+function getChunkTiles(levelIndex: LevelIndex, chunkId: ReturnType<typeof getChunkId>) {
+  const levelMap = levels.get(levelIndex);
+  const { chunkSize } = SAVE_CONFIG;
+  const tiles: ChunkTiles['tiles'] = [];
+  if (!levelMap) return tiles;
+  for (let y = getY(chunkId) * chunkSize; y < (getY(chunkId) + 1) * chunkSize; y++)
+    for (let x = getX(chunkId) * chunkSize; x < (getX(chunkId) + 1) * chunkSize; x++) {
+      const key = tileKey(x, y);
+      const index = levelMap.get(key);
+      if (index !== undefined) tiles.push({ key, index });
+    }
+  return tiles;
+}
+
+/** Уровень изменён: сохранить чанки изменённых клеток, обновить комнаты */
+function markDirty(levelIndex: LevelIndex, changedKeys: Iterable<ReturnType<typeof tileKey>>) {
+  const keys = Array.from(changedKeys);
+  const chunkIds = dirtyChunks.get(levelIndex) ?? new Set();
+  keys.forEach(key => chunkIds.add(getChunkId(key)));
+  dirtyChunks.set(levelIndex, chunkIds);
+  updateRooms(levelIndex, keys);
+  throttledPersist();
+}
+
+function markBuildingsDirty(levelIndex: LevelIndex) {
+  dirtyBuildings.add(levelIndex);
   throttledPersist();
 }
 
@@ -246,15 +966,551 @@ function markAttentionDirty() {
   throttledPersist();
 }
 
+function markClockDirty() {
+  dirtyClock = true;
+  throttledPersist();
+}
+
+function markEventsDirty() {
+  dirtyEvents = true;
+  throttledPersist();
+}
+
+function markResearchDirty() {
+  dirtyResearch = true;
+  throttledPersist();
+}
+
+function markWorkDirty() {
+  dirtyWork = true;
+  throttledPersist();
+}
+
+function markHistoryDirty() {
+  dirtyHistory = true;
+  throttledPersist();
+}
+
 function markTasksDirty(pool: TaskPool) {
   if (pool === 'active') dirtyActiveTasks = true;
   else if (pool === 'paused') dirtyPausedTasks = true;
   else if (pool === 'resumed') dirtyResumedTasks = true;
   else if (pool === 'pending') dirtyPendingTasks = true;
+  else if (pool === 'quarantine') dirtyQuarantinedTasks = true;
   throttledPersist();
 }
 
+// ============================================================
+// === TASK ENGINE ===
+// ============================================================
+
+/** Снимок всех пулов задач */
+export type TaskPools = { [P in TaskPool]: TaskSaved[] };
+export type DependencyError =
+  | { type: 'duplicate_id'; id: string }
+  | { type: 'unknown_prerequisite'; id: string; prerequisiteId: string }
+  | { type: 'dependency_cycle'; cycle: string[] };
+/** Сообщения движка задач подписчику на main thread */
+export type TaskEngineEvent =
+  | { type: 'snapshot'; pools: TaskPools }
+  | { type: 'progress'; progress: Array<{ id: string; elapsedMs: number; rate: number }> }
+  | { type: 'hook'; hook: 'onStart' | 'onComplete' | 'onCancel' | 'onPause'; task: TaskSaved }
+  | { type: 'clock'; gameTime: number }
+  | { type: 'attention'; events: ActiveAttentionEvent[] }
+  | { type: 'research'; unlocked: string[] }
+  | { type: 'cancellation'; cancelled: Array<{ task: TaskSaved; refundedMs: number }> }
+  | { type: 'attentionEvent'; phase: 'start' | 'end'; event: ActiveAttentionEvent };
+
+const MINIMAL_COST = TASK_POOL_CONFIG.minimalCost satisfies TaskSaved['cost'];
+/** Погрешность float при шаге ровно до завершения задачи */
+const COMPLETION_EPSILON_MS = 1e-6;
+
+let engineListener: ((events: TaskEngineEvent[]) => void) | null = null;
+let engineTimer: ReturnType<typeof setInterval> | null = null;
+/** Момент жадного прохода (gameClock.gameTime) или null, если не запланирован */
+let greedyPassAt: number | null = null;
+/** Множители скорости типов задач (реестр типов живёт на main thread) */
+let speedModifiers: { [type in string]: number } = {};
+/** Доли возврата работы при отмене по типам задач (см. cancelPolicy) */
+let refundRatios: { [type in string]: number } = {};
+
+const outbox: TaskEngineEvent[] = [];
+let poolsChanged = false;
+let attentionEventsChanged = false;
+let researchChanged = false;
+/** Отмены с последней отправки — уходят подписчику одним событием */
+const cancellations: Array<{ task: TaskSaved; refundedMs: number }> = [];
+
+/** Пометить пулы изменёнными: снимок уйдёт подписчику, пулы — в IndexedDB */
+function markPoolsChanged(...pools: TaskPool[]) {
+  poolsChanged = true;
+  pools.forEach(markTasksDirty);
+}
+
+/** Отправить накопленные события подписчику одним сообщением */
+function flushEvents() {
+  if (researchChanged) {
+    researchChanged = false;
+    outbox.unshift({ type: 'research', unlocked: [...unlockedResearch] });
+  }
+  if (attentionEventsChanged) {
+    attentionEventsChanged = false;
+    outbox.unshift({ type: 'attention', events: [...attentionEvents.active] });
+  }
+  if (poolsChanged) {
+    poolsChanged = false;
+    outbox.unshift({ type: 'snapshot', pools: getPools() });
+  }
+  if (cancellations.length) outbox.push({ type: 'cancellation', cancelled: cancellations.splice(0) });
+  if (!outbox.length) return;
+  const events = outbox.splice(0);
+  engineListener?.(events);
+}
+
+function getPools(): TaskPools {
+  return {
+    active: Array.from(activeTasks.values()),
+    paused: Array.from(pausedTasks.values()),
+    resumed: [...resumedTasks],
+    pending: [...pendingTasks],
+    quarantine: [...quarantinedTasks],
+  };
+}
+
+const allTasks = () => [
+  ...activeTasks.values(),
+  ...resumedTasks,
+  ...pendingTasks,
+  ...pausedTasks.values(),
+  ...quarantinedTasks,
+];
+
+/** Незавершённые задачи задания (кроме карантина) */
+const getJobTasks = (jobId: string) =>
+  allTasks().filter(task => task.job?.id === jobId && !quarantinedTasks.includes(task));
+
+/** Извлечь задачу из пула */
+function takeTask(id: string, from: TaskPool) {
+  if (from === 'active' || from === 'paused') {
+    const pool = from === 'active' ? activeTasks : pausedTasks;
+    const task = pool.get(id);
+    pool.delete(id);
+    return task;
+  }
+  const queue = from === 'resumed' ? resumedTasks : from === 'pending' ? pendingTasks : quarantinedTasks;
+  const index = queue.findIndex(t => t.id === id);
+  return index < 0 ? undefined : queue.splice(index, 1)[0];
+}
+
+const getPriority = ({ priority = 0 }: Pick<TaskSaved, 'priority'>) => priority;
+
+/**
+ * Поставить задачу в очередь по её приоритету.
+ * Очереди resumed и pending всегда отсортированы по priority (выше — раньше), поэтому заполнение пула
+ * и жадный проход, идущие по порядку очереди, идут по приоритету.
+ * @param side back — за задачами того же приоритета, front — перед ними (вытесненные из активного пула)
+ */
+function enqueue(queue: TaskSaved[], task: TaskSaved, side: 'front' | 'back' = 'back') {
+  const priority = getPriority(task);
+  const index = queue.findIndex(t => (side === 'back' ? getPriority(t) < priority : getPriority(t) <= priority));
+  queue.splice(index < 0 ? queue.length : index, 0, task);
+}
+
+/**
+ * Вставить задачи в очередь на позицию index (перестановка игроком).
+ * Приоритет задач подгоняется под соседей — очередь остаётся отсортированной, а новое место переживает
+ * добавление задач и возврат из паузы. Порядок вставляемых задач (по убыванию приоритета) сохраняется.
+ */
+function placeInQueue(queue: TaskSaved[], tasks: TaskSaved[], index: number) {
+  const at = Math.max(0, Math.min(index, queue.length));
+  const above = at > 0 ? getPriority(queue[at - 1]) : Infinity;
+  const below = at < queue.length ? getPriority(queue[at]) : -Infinity;
+  tasks.forEach(task => (task.priority = Math.max(below, Math.min(above, getPriority(task)))));
+  queue.splice(at, 0, ...tasks);
+}
+
+/** Положить задачу в пул (очереди — в конец своего приоритета) */
+function putTask(task: TaskSaved, to: TaskPool) {
+  if (to === 'active') activeTasks.set(task.id, task);
+  else if (to === 'paused') pausedTasks.set(task.id, task);
+  else if (to === 'resumed') enqueue(resumedTasks, task);
+  else if (to === 'pending') enqueue(pendingTasks, task);
+  else quarantinedTasks.push(task);
+}
+
+/** Найти пул задачи */
+function findPool(id: string): TaskPool | undefined {
+  if (activeTasks.has(id)) return 'active';
+  if (pausedTasks.has(id)) return 'paused';
+  if (resumedTasks.some(t => t.id === id)) return 'resumed';
+  if (pendingTasks.some(t => t.id === id)) return 'pending';
+  if (quarantinedTasks.some(t => t.id === id)) return 'quarantine';
+}
+
+function moveTask(id: string, from: TaskPool, to: TaskPool) {
+  const task = takeTask(id, from);
+  if (!task) return;
+  putTask(task, to);
+  markPoolsChanged(from, to);
+  return task;
+}
+
+/** Лимит внимания с учётом исследований и идущих событий (кризисы занимают долю, благословения добавляют) */
+const getEffectiveLimit = () =>
+  getEffectiveAttentionLimit(attentionLimit + researchEffects.attentionBonus, attentionEvents.active);
+
+function getActiveCost() {
+  let totalCost = 0;
+  activeTasks.forEach(task => (totalCost += task.cost));
+  return totalCost;
+}
+
+/**
+ * Доля свободного внимания (0.0 - 1.0).
+ * Формула: 1 - Σ(task.cost) / effectiveLimit
+ */
+function getFreeAttention() {
+  const limit = getEffectiveLimit();
+  if (limit <= 0) return 1;
+  return 1 - getActiveCost() / limit;
+}
+
+const canFit = ({ cost }: Pick<TaskSaved, 'cost'>) => {
+  const limit = getEffectiveLimit();
+  return limit > 0 && getFreeAttention() >= cost / limit;
+};
+
+/** Скорость задачи: speedModifier типа × бонус за свободное внимание */
+const getProgressRate = ({ type }: Pick<TaskSaved, 'type'>) =>
+  (speedModifiers[type] ?? 1) * getSpeedBonus(getFreeAttention());
+
+/**
+ * Проверить зависимости новой пачки задач относительно уже существующих.
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - id уже занят → duplicate_id
+ * - Предпосылка не найдена ни среди существующих, ни в пачке → unknown_prerequisite
+ *   (завершённые задачи удаляются, ссылаться на них бессмысленно)
+ * - Цикл в общем графе (существующие + пачка) → dependency_cycle с путём цикла
+ */
+function checkDependencies(tasks: TaskSaved[]): DependencyError | undefined {
+  const graph = new Map(allTasks().map(task => [task.id, task.dependsOn ?? []]));
+  for (const task of tasks) {
+    if (graph.has(task.id)) return { type: 'duplicate_id', id: task.id };
+    graph.set(task.id, task.dependsOn ?? []);
+  }
+  for (const task of tasks) {
+    const missing = task.dependsOn?.find(id => !graph.has(id));
+    if (missing) return { type: 'unknown_prerequisite', id: task.id, prerequisiteId: missing };
+  }
+
+  // DFS с раскраской: visiting на стеке → обратное ребро = цикл
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+  const findCycle = (id: string): string[] | undefined => {
+    if (state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') return path.slice(path.indexOf(id)).concat(id);
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const prerequisiteId of graph.get(id) ?? []) {
+      const cycle = findCycle(prerequisiteId);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+  };
+  for (const task of tasks) {
+    const cycle = findCycle(task.id);
+    if (cycle) return { type: 'dependency_cycle', cycle };
+  }
+}
+
+/**
+ * Готова ли задача к активации: наступил её срок (earliestStartAt) и все предпосылки завершены.
+ * Завершённые задачи удаляются — значит, предпосылка выполнена, если её нет ни в одном пуле.
+ */
+const createReadyCheck = () => {
+  const incomplete = new Set(allTasks().map(task => task.id));
+  return (task: TaskSaved) =>
+    (task.earliestStartAt ?? 0) <= gameClock.gameTime && !task.dependsOn?.some(id => incomplete.has(id));
+};
+
+/** Через сколько мс наступит ближайший старт по расписанию (Infinity — нечего ждать) */
+const getNextDueIn = () =>
+  Math.min(
+    ...[...resumedTasks, ...pendingTasks].map(({ earliestStartAt = 0 }) =>
+      earliestStartAt > gameClock.gameTime ? earliestStartAt - gameClock.gameTime : Infinity
+    )
+  );
+
+/**
+ * Следующий экземпляр повторяющейся задачи (или undefined, если повторы закончились).
+ * Предпосылки и задание не переносятся: они относились к первому экземпляру.
+ */
+function getNextOccurrence(task: TaskSaved) {
+  const { recurrence } = task;
+  if (!recurrence || (recurrence.times !== undefined && recurrence.times <= 1)) return;
+  const next: TaskSaved = {
+    ...task,
+    id: nanoid(),
+    elapsedMs: 0,
+    earliestStartAt: gameClock.gameTime + (recurrence.everyMs ?? 0),
+    recurrence: { ...recurrence, times: recurrence.times === undefined ? undefined : recurrence.times - 1 },
+  };
+  delete next.dependsOn;
+  delete next.job;
+  return next;
+}
+
+/**
+ * Вытеснить активные задачи, которые больше не влезают в лимит (кризис занял внимание).
+ * Вытесняются последние активированные — у них наименьший приоритет. Они встают в начало resumed
+ * (перед задачами своего приоритета) в прежнем порядке и вернутся первыми, когда внимание освободится.
+ */
+function evictOverflow() {
+  const limit = getEffectiveLimit();
+  const evicted: TaskSaved[] = [];
+  for (const task of Array.from(activeTasks.values()).reverse()) {
+    if (getActiveCost() <= limit) break;
+    activeTasks.delete(task.id);
+    evicted.unshift(task);
+    outbox.push({ type: 'hook', hook: 'onPause', task });
+  }
+  if (!evicted.length) return;
+  evicted.reverse().forEach(task => enqueue(resumedTasks, task, 'front'));
+  markPoolsChanged('active', 'resumed');
+}
+
+/** Запустить событие внимания: объявить, сохранить, вытеснить то, что больше не влезает */
+function startAttentionEvent({ id, kind, title, description, reserve, boost, durationMs }: AttentionEventDefinition) {
+  const event: ActiveAttentionEvent = {
+    id,
+    kind,
+    title,
+    description,
+    reserve,
+    boost,
+    endsAt: gameClock.gameTime + durationMs,
+  };
+  attentionEvents.active.push(event);
+  attentionEvents.triggeredAt[id] = gameClock.gameTime;
+  attentionEventsChanged = true;
+  markEventsDirty();
+  outbox.push({ type: 'attentionEvent', phase: 'start', event });
+  evictOverflow();
+}
+
+/**
+ * Проверить триггеры событий внимания за прошедший тик.
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ:
+ * - Идущее событие и событие на cooldown не срабатывают
+ * - random: вероятность за тик = 1 - e^(-chancePerMinute × delta / 1 мин) — не зависит от частоты тиков
+ */
+function triggerAttentionEvents(delta: number) {
+  const state = {
+    gameTime: gameClock.gameTime,
+    freeAttention: getFreeAttention(),
+    activeCount: activeTasks.size,
+    queuedCount: resumedTasks.length + pendingTasks.length,
+  };
+  for (const definition of ATTENTION_EVENTS) {
+    if (attentionEvents.active.some(event => event.id === definition.id)) continue;
+    const triggeredAt = attentionEvents.triggeredAt[definition.id];
+    if (triggeredAt !== undefined && gameClock.gameTime < triggeredAt + definition.cooldownMs) continue;
+    const { trigger } = definition;
+    const fired =
+      trigger.type === 'random'
+        ? Math.random() < 1 - Math.exp((-trigger.chancePerMinute * delta) / 60000)
+        : trigger.type === 'interval'
+          ? gameClock.gameTime - (triggeredAt ?? 0) >= trigger.everyMs
+          : trigger.check(state);
+    if (fired) startAttentionEvent(definition);
+  }
+}
+
+/** Завершить события внимания, чьё время вышло */
+function expireAttentionEvents() {
+  const ended = attentionEvents.active.filter(event => event.endsAt <= gameClock.gameTime);
+  if (!ended.length) return;
+  attentionEvents.active = attentionEvents.active.filter(event => !ended.includes(event));
+  attentionEventsChanged = true;
+  markEventsDirty();
+  ended.forEach(event => outbox.push({ type: 'attentionEvent', phase: 'end', event }));
+}
+
+/** Через сколько мс закончится ближайшее событие внимания (Infinity — событий нет) */
+const getNextEventEndIn = () =>
+  Math.min(...attentionEvents.active.map(event => Math.max(0, event.endsAt - gameClock.gameTime)));
+
+function activate(task: TaskSaved, from: 'resumed' | 'pending') {
+  moveTask(task.id, from, 'active');
+  outbox.push({ type: 'hook', hook: 'onStart', task });
+}
+
+/**
+ * Последовательный проход: resumed, затем pending (каждая — по приоритету), пока первая готовая задача влезает.
+ * Заблокированные зависимостями задачи пропускаются и очередь не держат.
+ * @returns нужен ли жадный проход (первая готовая задача очереди не влезает)
+ */
+function fillPoolSequential() {
+  if (!canFit({ cost: MINIMAL_COST })) return false;
+  const isReady = createReadyCheck();
+
+  // 1. Сначала возвращённые из паузы (приоритет)
+  for (let task = resumedTasks.find(isReady); task && canFit(task); task = resumedTasks.find(isReady))
+    activate(task, 'resumed');
+  if (!canFit({ cost: MINIMAL_COST })) return false;
+
+  // 2. Затем pending
+  for (let task = pendingTasks.find(isReady); task && canFit(task); task = pendingTasks.find(isReady))
+    activate(task, 'pending');
+  if (!canFit({ cost: MINIMAL_COST })) return false;
+
+  // 3. Первая готовая задача не влезает — нужен жадный проход
+  return researchEffects.greedyPassEnabled && (resumedTasks.some(isReady) || pendingTasks.some(isReady));
+}
+
+/** Жадный проход: активировать всё готовое, что влезает (лимит мог измениться — берём актуальный) */
+function fillPoolGreedy() {
+  if (!canFit({ cost: MINIMAL_COST })) return;
+  const isReady = createReadyCheck();
+  for (const task of [...resumedTasks]) if (isReady(task) && canFit(task)) activate(task, 'resumed');
+  if (!canFit({ cost: MINIMAL_COST })) return;
+  for (const task of [...pendingTasks]) if (isReady(task) && canFit(task)) activate(task, 'pending');
+}
+
+/** Заполнить активный пул; первая готовая не влезает — запланировать жадный проход */
+function fillPool() {
+  if (fillPoolSequential() && greedyPassAt === null)
+    greedyPassAt = gameClock.gameTime + researchEffects.greedyPassDelay;
+}
+
+/**
+ * Продвинуть движок на delta мс игрового времени.
+ *
+ * АЛГОРИТМ:
+ * 1. Скорости считаются ДО изменений — внутри шага состав активного пула постоянен
+ * 2. elapsedMs += delta × rate, завершённые уходят с хуком onComplete; повторяющиеся — новым экземпляром в pending
+ * 3. Закончившиеся события внимания снимаются — лимит восстанавливается
+ * 4. Жадный проход, если подошло время, затем обычное заполнение (задачи по расписанию — когда наступил их срок)
+ *
+ * @returns число завершённых задач
+ */
+function advance(delta: number) {
+  const rates = new Map(Array.from(activeTasks.values(), task => [task.id, getProgressRate(task)]));
+  gameClock.gameTime += delta;
+  markClockDirty();
+  let completed = 0;
+  activeTasks.forEach(task => {
+    task.elapsedMs = Math.min(task.duration, task.elapsedMs + delta * (rates.get(task.id) ?? 1));
+    if (task.duration - task.elapsedMs > COMPLETION_EPSILON_MS) return;
+    activeTasks.delete(task.id);
+    outbox.push({ type: 'hook', hook: 'onComplete', task });
+    completed++;
+    const next = getNextOccurrence(task);
+    if (next) {
+      enqueue(pendingTasks, next);
+      markPoolsChanged('pending');
+    }
+  });
+  if (activeTasks.size || completed) markTasksDirty('active');
+  if (completed) poolsChanged = true;
+  expireAttentionEvents();
+
+  if (greedyPassAt !== null && gameClock.gameTime >= greedyPassAt) {
+    greedyPassAt = null;
+    fillPoolGreedy();
+  }
+  fillPool();
+  return completed;
+}
+
+/**
+ * Догнать прогресс за время, пока игра была закрыта.
+ *
+ * АЛГОРИТМ (событийная симуляция по тем же правилам, что и тики):
+ * 1. Шаг — до ближайшего события: завершение активной задачи (с учётом её скорости), жадный проход
+ *    старт задачи по расписанию или конец события внимания.
+ *    Между событиями состав активного пула, а значит и скорости, не меняется
+ * 2. advance(шаг) → освобождённое внимание забирают очереди
+ * 3. Повторять, пока есть время и что симулировать
+ *
+ * ГРАНИЧНЫЕ СЛУЧАИ: Новые события внимания офлайн не срабатывают — только идущие доживают свой срок.
+ *
+ * @returns число завершённых задач
+ */
+function catchUp(gapMs: number) {
+  let completed = 0;
+  let remaining = gapMs;
+  fillPool();
+  while (
+    remaining > 0 &&
+    (activeTasks.size || greedyPassAt !== null || getNextDueIn() < Infinity || attentionEvents.active.length)
+  ) {
+    const nextCompletion = Math.min(
+      ...Array.from(activeTasks.values(), task => (task.duration - task.elapsedMs) / getProgressRate(task))
+    );
+    const greedyIn = greedyPassAt === null ? Infinity : greedyPassAt - gameClock.gameTime;
+    const step = Math.max(0, Math.min(remaining, nextCompletion, greedyIn, getNextDueIn(), getNextEventEndIn()));
+    remaining -= step;
+    completed += advance(step);
+  }
+  return completed;
+}
+
+/** Тик движка по игровым часам (пауза и скорость — из состояния часов); события внимания — только здесь */
+function startEngineTimer() {
+  if (engineTimer) return;
+  let lastRealTime = performance.now();
+  engineTimer = setInterval(() => {
+    const now = performance.now();
+    const realDelta = now - lastRealTime;
+    lastRealTime = now;
+    if (gameClock.isPaused || realDelta <= 0) return;
+    const delta = realDelta * gameClock.timeScale;
+    advance(delta);
+    triggerAttentionEvents(delta);
+    fillPool(); // благословение могло добавить внимание
+    outbox.push({ type: 'clock', gameTime: gameClock.gameTime });
+    if (activeTasks.size)
+      outbox.push({
+        type: 'progress',
+        progress: Array.from(activeTasks.values(), task => ({
+          id: task.id,
+          elapsedMs: task.elapsedMs,
+          rate: getProgressRate(task),
+        })),
+      });
+    flushEvents();
+  }, GAME_CLOCK_CONFIG.tickInterval);
+}
+
+/**
+ * Отменить задачу и (каскадно) зависимые от неё.
+ * Возвращённая по политике типа работа остаётся на цели задачи (workKey) — её заберёт следующая задача той же цели.
+ */
+function cancelTask(id: string) {
+  const from = findPool(id);
+  if (!from) return;
+  const task = takeTask(id, from);
+  if (!task) return;
+  markPoolsChanged(from);
+  // Задача из карантина просто удаляется (хуков и политики её типа нет)
+  const refundedMs = from === 'quarantine' || !task.workKey ? 0 : task.elapsedMs * (refundRatios[task.type] ?? 0);
+  if (refundedMs > 0 && task.workKey) {
+    workBank[task.workKey] = Math.min(task.duration, (workBank[task.workKey] ?? 0) + refundedMs);
+    markWorkDirty();
+  }
+  cancellations.push({ task, refundedMs });
+  if (from !== 'quarantine') outbox.push({ type: 'hook', hook: 'onCancel', task });
+  allTasks()
+    .filter(t => t.dependsOn?.includes(id) && (t.onPrerequisiteCancel ?? 'cascade') === 'cascade')
+    .forEach(t => cancelTask(t.id));
+}
+
 const api = {
+  /** Сохранение открыто и загружено; отклоняется, если БД не открылась (см. dungeonDB) */
   async waitForReady() {
     await dungeonDB;
   },
@@ -280,7 +1536,10 @@ const api = {
     offsetTilesY: number;
   }) {
     await dungeonDB;
-    const levelMap = await getLevel(levelIndex);
+    const levelMap = await getLevelChunks(
+      levelIndex,
+      getAreaChunkKeys(offsetTilesX, offsetTilesY, widthTiles, heightTiles)
+    );
     return Array.from({ length: heightTiles }, (_, y) =>
       Array.from({ length: widthTiles }, (_, x) => levelMap.get(tileKey(x + offsetTilesX, y + offsetTilesY)) ?? -1)
     );
@@ -289,40 +1548,249 @@ const api = {
   // Получить тайл
   async getTile({ levelIndex = currentLevelIndex, x, y }: { levelIndex?: LevelIndex; x: number; y: number }) {
     await dungeonDB;
-    const levelMap = await getLevel(levelIndex);
+    const levelMap = await getLevelChunks(levelIndex, [tileKey(x, y)]);
     return levelMap.get(tileKey(x, y));
   },
 
-  // Установить тайл
+  // Установить тайл; undoable — правка игрока, попадает в историю (Ctrl+Z)
   async setTile({
     levelIndex = currentLevelIndex,
     X,
     Y,
     index,
+    undoable = false,
   }: {
     levelIndex?: LevelIndex;
     X: number;
     Y: number;
     index: TileIndexes;
+    undoable?: boolean;
   }) {
     await dungeonDB;
-    const levelMap = await getLevel(levelIndex);
-    levelMap.set(tileKey(X, Y), index);
-    markDirty(levelIndex);
+    const key = tileKey(X, Y);
+    const levelMap = await getLevelChunks(levelIndex, [key]);
+    if (undoable) recordEdits(levelIndex, [{ X, Y, before: levelMap.get(key) ?? -1, after: index }]);
+    levelMap.set(key, index);
+    markDirty(levelIndex, [key]);
   },
 
-  // Установить несколько тайлов
+  // Установить несколько тайлов; undoable — одна запись истории на весь пакет
   async setTiles({
     levelIndex = currentLevelIndex,
     tiles,
+    undoable = false,
   }: {
     levelIndex?: LevelIndex;
     tiles: Array<{ x: number; y: number; index: TileIndexes }>;
+    undoable?: boolean;
   }) {
     await dungeonDB;
-    const levelMap = await getLevel(levelIndex);
-    tiles.forEach(({ x, y, index }) => levelMap.set(tileKey(x, y), index));
-    markDirty(levelIndex);
+    const levelMap = await getLevelChunks(
+      levelIndex,
+      tiles.map(({ x, y }) => tileKey(x, y))
+    );
+    if (undoable)
+      recordEdits(
+        levelIndex,
+        tiles.map(({ x, y, index }) => ({ X: x, Y: y, before: levelMap.get(tileKey(x, y)) ?? -1, after: index }))
+      );
+    const keys = tiles.map(({ x, y, index }) => {
+      const key = tileKey(x, y);
+      levelMap.set(key, index);
+      return key;
+    });
+    markDirty(levelIndex, keys);
+  },
+
+  /**
+   * Записать завершённый захват клеток — одна запись истории правок на весь пакет.
+   *
+   * ЗАЧЕМ: Пока шла задача, уровень могли изменить (удаление, отмена правки, лестница) —
+   * правила предпросмотра проверяются ещё раз при записи, как у placeBuilding.
+   *
+   * ГРАНИЧНЫЕ СЛУЧАИ:
+   * - Клетка стала лестницей → stairs
+   * - Клетку заняла постройка → building (как у removeTile: тайлы под постройкой не меняются)
+   * - Пакет больше не связан с уровнем → not_connected
+   * - Любая ошибка отклоняет пакет целиком: уровень не остаётся с частью штриха
+   *
+   * @returns ошибка или undefined, если клетки записаны
+   */
+  async captureTiles({
+    levelIndex = currentLevelIndex,
+    tiles,
+  }: {
+    levelIndex?: LevelIndex;
+    tiles: Array<{ X: number; Y: number; index: TileIndexes }>;
+  }): Promise<TileCaptureError | undefined> {
+    await dungeonDB;
+    const keys = tiles.map(({ X, Y }) => tileKey(X, Y));
+    const error = await getCaptureError(levelIndex, keys);
+    if (error) return error;
+    const levelMap = await getLevelChunks(levelIndex, keys);
+    recordEdits(
+      levelIndex,
+      tiles.map(({ X, Y, index }, i) => ({ X, Y, before: levelMap.get(keys[i]) ?? -1, after: index }))
+    );
+    tiles.forEach(({ index }, i) => levelMap.set(keys[i], index));
+    markDirty(levelIndex, keys);
+  },
+
+  /**
+   * Можно ли строить в клетке: она сама или соседняя по стороне занята тайлом игрока.
+   * Проверка по всему уровню — не зависит от того, какая часть карты сейчас в слое тайлмапа.
+   */
+  async isTileConnected({ levelIndex = currentLevelIndex, X, Y }: { levelIndex?: LevelIndex; X: number; Y: number }) {
+    await dungeonDB;
+    const key = tileKey(X, Y);
+    const levelMap = await getLevelChunks(levelIndex, [key, ...getNeighbourKeys(key)]);
+    return levelMap.has(key) || getNeighbourKeys(key).some(neighbour => levelMap.has(neighbour));
+  },
+
+  /**
+   * Связность пакета клеток (штрих инструмента строительства) — пакет оценивается целиком (см. getBatchDepths).
+   * @returns для каждой клетки (в порядке tiles) — шаг BFS, на котором она связалась с уровнем, или -1
+   */
+  async getBatchConnectivity({
+    levelIndex = currentLevelIndex,
+    tiles,
+  }: {
+    levelIndex?: LevelIndex;
+    tiles: Array<{ X: number; Y: number }>;
+  }) {
+    await dungeonDB;
+    const keys = tiles.map(({ X, Y }) => tileKey(X, Y));
+    const levelMap = await getLevelChunks(
+      levelIndex,
+      keys.flatMap(key => [key, ...getNeighbourKeys(key)])
+    );
+    const depths = getBatchDepths(levelMap, keys);
+    return keys.map(key => depths.get(key) ?? -1);
+  },
+
+  /**
+   * Удалить тайл игрока — клетка снова показывает ландшафт.
+   *
+   * ГРАНИЧНЫЕ СЛУЧАИ:
+   * - Тайла нет → no_tile
+   * - Лестница → stairs: её пара на соседнем уровне осталась бы без выхода
+   * - Под постройкой → building: сначала снести постройку
+   * - Последний тайл уровня → last_tile: строить на пустом уровне не от чего
+   * - Точка сочленения → splits_level: уровень распался бы на острова
+   *
+   * АЛГОРИТМ: Уровень связен, поэтому тайл без соседей — последний, а разрыв виден по соседям:
+   * они должны остаться связаны в обход тайла (areTilesConnected — чанки догружаются по мере заливки).
+   *
+   * @returns ошибка или undefined, если тайл удалён
+   */
+  async removeTile({
+    levelIndex = currentLevelIndex,
+    X,
+    Y,
+  }: {
+    levelIndex?: LevelIndex;
+    X: number;
+    Y: number;
+  }): Promise<TileRemovalError | undefined> {
+    await dungeonDB;
+    const key = tileKey(X, Y);
+    const levelMap = await getLevelChunks(levelIndex, [key, ...getNeighbourKeys(key)]);
+    const index = levelMap.get(key);
+    if (index === undefined) return { type: 'no_tile' };
+    if (index === TILE_INDEX.stairsDown || index === TILE_INDEX.stairsUp) return { type: 'stairs' };
+    if ((await getOccupiedKeys(levelIndex)).has(key)) return { type: 'building' };
+    const neighbours = getNeighbourKeys(key).filter(neighbour => levelMap.has(neighbour));
+    if (!neighbours.length) return { type: 'last_tile' };
+    if (!(await areTilesConnected(levelIndex, neighbours, tile => tile !== key && levelMap.has(tile))))
+      return { type: 'splits_level' };
+    recordEdits(levelIndex, [{ X, Y, before: index, after: -1 }]);
+    levelMap.delete(key);
+    markDirty(levelIndex, [key]);
+  },
+
+  /** Отменить последнюю правку карты (см. applyHistory) */
+  async undoEdit() {
+    await dungeonDB;
+    return applyHistory('undo');
+  },
+
+  /** Повторить последнюю отменённую правку карты (см. applyHistory) */
+  async redoEdit() {
+    await dungeonDB;
+    return applyHistory('redo');
+  },
+
+  /** Постройки уровня */
+  async getBuildings({ levelIndex = currentLevelIndex }: { levelIndex?: LevelIndex } = {}) {
+    await dungeonDB;
+    return Array.from((await getBuildings(levelIndex)).values());
+  },
+
+  /**
+   * Поставить постройку — по тем же правилам, что и предпросмотр (getPlacementError).
+   * ГРАНИЧНЫЕ СЛУЧАИ: Пока шла задача постройки, пол могли убрать или клетки занять → ошибка, постройки нет.
+   * @returns поставленная постройка или ошибка размещения
+   */
+  async placeBuilding({
+    levelIndex = currentLevelIndex,
+    placement,
+  }: {
+    levelIndex?: LevelIndex;
+    placement: BuildingPlacement;
+  }): Promise<{ type: 'placed'; building: Building } | BuildingPlacementError> {
+    await dungeonDB;
+    const levelMap = await getLevelChunks(
+      levelIndex,
+      getFootprint(placement).map(({ X, Y }) => tileKey(X, Y))
+    );
+    const occupied = await getOccupiedKeys(levelIndex);
+    const error = getPlacementError(placement, {
+      getTileIndex: ({ X, Y }) => levelMap.get(tileKey(X, Y)) ?? null,
+      isOccupied: ({ X, Y }) => occupied.has(tileKey(X, Y)),
+    });
+    if (error) return error;
+    const building: Building = { ...placement, id: nanoid(), placedAt: Date.now() };
+    (await getBuildings(levelIndex)).set(building.id, building);
+    markBuildingsDirty(levelIndex);
+    return { type: 'placed', building };
+  },
+
+  /**
+   * Снести постройку — футпринт освобождается, тайлы под ней остаются.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Постройки нет → false.
+   */
+  async removeBuilding({ levelIndex = currentLevelIndex, id }: { levelIndex?: LevelIndex; id: string }) {
+    await dungeonDB;
+    const removed = (await getBuildings(levelIndex)).delete(id);
+    if (removed) markBuildingsDirty(levelIndex);
+    return removed;
+  },
+
+  /** Все комнаты уровня (см. getLevelRooms — загружает уровень целиком) */
+  async getRooms({ levelIndex = currentLevelIndex }: { levelIndex?: LevelIndex } = {}): Promise<Room[]> {
+    await dungeonDB;
+    const { rooms } = await getLevelRooms(levelIndex);
+    return Array.from(rooms, ([id, room]) => toRoom(levelIndex, id, room));
+  },
+
+  /**
+   * Комната, в которую входит клетка, вместе с клетками — для оверлея.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Клетка не пол или пол не замкнут стенами → undefined.
+   */
+  async getRoomAt({
+    levelIndex = currentLevelIndex,
+    X,
+    Y,
+  }: {
+    levelIndex?: LevelIndex;
+    X: number;
+    Y: number;
+  }): Promise<RoomWithCells | undefined> {
+    await dungeonDB;
+    const id = await findRoomAt(levelIndex, tileKey(X, Y));
+    const room = id === undefined ? undefined : getRoomState(levelIndex).rooms.get(id);
+    if (id === undefined || !room) return;
+    return { ...toRoom(levelIndex, id, room), cells: room.cells.map(key => ({ X: getX(key), Y: getY(key) })) };
   },
 
   // Получить индекс активного уровня
@@ -335,101 +1803,343 @@ const api = {
   async setCurrentLevelIndex(levelIndex: LevelIndex) {
     await dungeonDB;
     currentLevelIndex = levelIndex;
-    if (!levels.has(levelIndex)) await loadLevelFromDB(levelIndex);
+    await getLevelEntry(levelIndex);
+    markMetaDirty();
+  },
+
+  /** Все уровни по глубине */
+  async getLevels() {
+    await dungeonDB;
+    return getLevelInfos();
+  },
+
+  /**
+   * Создать уровень глубже самого нижнего.
+   * АЛГОРИТМ: Стартовая площадка startAreaSize × startAreaSize вокруг клетки (0, 0) — от неё строится уровень.
+   * @returns описание созданного уровня
+   */
+  async createLevel({ name }: { name?: string } = {}) {
+    await dungeonDB;
+    const levelIndex = Math.max(...levelInfos.keys()) + 1;
+    const level = createLevelInfo(levelIndex);
+    if (name?.trim()) level.name = name.trim();
+    levelInfos.set(levelIndex, level);
+    markMetaDirty();
+
+    const half = Math.floor(LEVEL_CONFIG.startAreaSize / 2);
+    const keys = Array.from({ length: LEVEL_CONFIG.startAreaSize }, (_, i) => i - half).flatMap(x =>
+      Array.from({ length: LEVEL_CONFIG.startAreaSize }, (_, i) => tileKey(x, i - half))
+    );
+    const levelMap = await getLevelChunks(levelIndex, keys);
+    keys.forEach(key => levelMap.set(key, TILE_INDEX.grass0));
+    markDirty(levelIndex, keys);
+    return { ...level, index: levelIndex } satisfies LevelInfo;
+  },
+
+  /**
+   * Переименовать уровень.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Уровня нет или имя пустое → false, ничего не меняется.
+   */
+  async renameLevel({ levelIndex, name }: { levelIndex: LevelIndex; name: string }) {
+    await dungeonDB;
+    const level = levelInfos.get(levelIndex);
+    if (!level || !name.trim()) return false;
+    levelInfos.set(levelIndex, { ...level, name: name.trim() });
     markMetaDirty();
+    return true;
   },
 
-  async getTilesCountInLevel({ levelIndex = currentLevelIndex }: { levelIndex?: LevelIndex } = {}) {
+  /**
+   * Прокопать лестницу: stairsDown на уровне levelIndex и stairsUp на уровне ниже в той же клетке.
+   *
+   * ГРАНИЧНЫЕ СЛУЧАИ:
+   * - Клетка не проходит проверку захвата (getCaptureError) на уровне levelIndex → ошибка, ничего не пишется
+   * - Уровень ниже не пуст → та же проверка там: stairsUp не может стать островом (уровень не распадается),
+   *   встать на лестницу или под постройку; ошибка — ничего не пишется ни на одном уровне
+   * - Уровня ниже нет (или он пуст) → stairsUp — его единственный тайл, от неё строится уровень; уровень создаётся
+   * - Прочий тайл игрока в клетке (на любом из уровней) перезаписывается
+   *
+   * @returns уровень ниже и был ли он создан или ошибка захвата с уровнем, на котором она случилась
+   */
+  async digStairs({
+    levelIndex = currentLevelIndex,
+    X,
+    Y,
+  }: {
+    levelIndex?: LevelIndex;
+    X: number;
+    Y: number;
+  }): Promise<
+    { type: 'dug'; levelIndex: LevelIndex; created: boolean } | (TileCaptureError & { levelIndex: LevelIndex })
+  > {
     await dungeonDB;
-    return (await getLevel(levelIndex)).size;
+    const key = tileKey(X, Y);
+    const error = await getCaptureError(levelIndex, [key]);
+    if (error) return { ...error, levelIndex };
+    const belowIndex = levelIndex + 1;
+    if (!(await isLevelEmpty(belowIndex))) {
+      const belowError = await getCaptureError(belowIndex, [key]);
+      if (belowError) return { ...belowError, levelIndex: belowIndex };
+    }
+
+    const created = !levelInfos.has(belowIndex);
+    if (created) {
+      levelInfos.set(belowIndex, createLevelInfo(belowIndex));
+      markMetaDirty();
+    }
+    (await getLevelChunks(levelIndex, [key])).set(key, TILE_INDEX.stairsDown);
+    markDirty(levelIndex, [key]);
+    (await getLevelChunks(belowIndex, [key])).set(key, TILE_INDEX.stairsUp);
+    markDirty(belowIndex, [key]);
+    return { type: 'dug', levelIndex: belowIndex, created };
+  },
+
+  /**
+   * Сид мира.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Новое сохранение (или сохранение до появления ландшафта) → случайный сид, пишется в meta.
+   */
+  async getWorldSeed() {
+    await dungeonDB;
+    if (worldSeed === undefined) {
+      worldSeed = Math.floor(Math.random() * 0x7fffffff);
+      markMetaDirty();
+    }
+    return worldSeed;
+  },
+
+  /** Пуст ли уровень — без загрузки его чанков (см. isLevelEmpty) */
+  async isLevelEmpty({ levelIndex = currentLevelIndex }: { levelIndex?: LevelIndex } = {}) {
+    await dungeonDB;
+    return isLevelEmpty(levelIndex);
   },
 
   // ============================================================
   // === TASKS API ===
   // ============================================================
 
+  /** Снимок пулов для проверки типов на main thread (до startTaskEngine) */
   async getAllTasks() {
     await dungeonDB;
-    return {
-      active: Array.from(activeTasks.values()),
-      paused: Array.from(pausedTasks.values()),
-      resumed: [...resumedTasks],
-      pending: [...pendingTasks],
-    };
-  },
-
-  async moveTask({ id, from, to }: { id: string; from: TaskPool; to: TaskPool }) {
-    await dungeonDB;
-    let task: TaskSaved | undefined;
-
-    // Извлечь из исходного пула
-    if (from === 'active') {
-      task = activeTasks.get(id);
-      if (task) activeTasks.delete(id);
-    } else if (from === 'paused') {
-      task = pausedTasks.get(id);
-      if (task) pausedTasks.delete(id);
-    } else if (from === 'resumed') {
-      const index = resumedTasks.findIndex(t => t.id === id);
-      if (index >= 0) {
-        task = resumedTasks[index];
-        resumedTasks.splice(index, 1);
-      }
-    } else if (from === 'pending') {
-      const index = pendingTasks.findIndex(t => t.id === id);
-      if (index >= 0) {
-        task = pendingTasks[index];
-        pendingTasks.splice(index, 1);
-      }
+    return getPools();
+  },
+
+  /**
+   * Запустить движок задач и подписаться на его события.
+   *
+   * АЛГОРИТМ:
+   * 1. Задачи, не прошедшие проверку типа на main thread → карантин; вернувшиеся в строй → на паузу
+   * 2. Догнать время, пока игра была закрыта (не больше maxCatchUpMs, на паузе — нет)
+   * 3. Запустить тики и отправить подписчику первый снимок пулов, событий внимания и исследований
+   *
+   * ГРАНИЧНЫЕ СЛУЧАИ: Повторный вызов (перезапуск сцены) только меняет подписчика — без догонялки.
+   *
+   * @returns сколько времени прошло офлайн и сколько задач за это время завершилось
+   */
+  async startTaskEngine(
+    {
+      quarantine,
+      release,
+      modifiers,
+      refunds,
+    }: {
+      quarantine: string[];
+      release: string[];
+      modifiers: { [type in string]: number };
+      refunds: { [type in string]: number };
+    },
+    listener: (events: TaskEngineEvent[]) => void
+  ) {
+    await dungeonDB;
+    engineListener = listener;
+    speedModifiers = modifiers;
+    refundRatios = refunds;
+    quarantine.forEach(id => {
+      const from = findPool(id);
+      if (from && from !== 'quarantine') moveTask(id, from, 'quarantine');
+    });
+    release.forEach(id => moveTask(id, 'quarantine', 'paused'));
+    poolsChanged = true;
+    attentionEventsChanged = true;
+    researchChanged = true;
+
+    const isRestart = engineTimer !== null;
+    const gapMs = !isRestart && lastPersistAt && !gameClock.isPaused ? Date.now() - lastPersistAt : 0;
+    const completed = gapMs > 0 ? catchUp(Math.min(gapMs, OFFLINE_PROGRESS_CONFIG.maxCatchUpMs)) : 0;
+    fillPool();
+    startEngineTimer();
+    outbox.push({ type: 'clock', gameTime: gameClock.gameTime });
+    flushEvents();
+    return { gapMs, completed };
+  },
+
+  /**
+   * Добавить пачку задач в pending.
+   * Задача, у цели которой есть возвращённая при отмене работа, забирает её в elapsedMs.
+   * @returns ошибка зависимостей (ни одна задача не добавлена) или undefined
+   */
+  async addTasks({ tasks }: { tasks: TaskSaved[] }) {
+    await dungeonDB;
+    const error = checkDependencies(tasks);
+    if (error) return error;
+    for (const task of tasks) {
+      const banked = task.workKey ? workBank[task.workKey] : undefined;
+      if (!task.workKey || banked === undefined) continue;
+      task.elapsedMs = Math.min(task.duration, task.elapsedMs + banked);
+      delete workBank[task.workKey];
+      markWorkDirty();
     }
+    tasks.forEach(task => enqueue(pendingTasks, task));
+    markPoolsChanged('pending');
+    fillPool();
+    flushEvents();
+  },
 
+  /** Отменить задачу из любого пула (зависимые с cascade — следом) */
+  async cancelTask({ id }: { id: string }) {
+    await dungeonDB;
+    cancelTask(id);
+    fillPool(); // освободилось внимание или разблокировались orphan-зависимые
+    flushEvents();
+  },
+
+  /** active → paused: освобождает внимание */
+  async pauseTask({ id }: { id: string }) {
+    await dungeonDB;
+    const task = moveTask(id, 'active', 'paused');
     if (!task) return;
+    outbox.push({ type: 'hook', hook: 'onPause', task });
+    fillPool();
+    flushEvents();
+  },
+
+  /** paused → resumed (в конец) */
+  async resumeTask({ id }: { id: string }) {
+    await dungeonDB;
+    if (!moveTask(id, 'paused', 'resumed')) return;
+    fillPool();
+    flushEvents();
+  },
 
-    // Добавить в целевой пул
-    if (to === 'active') {
-      activeTasks.set(id, task);
-    } else if (to === 'paused') {
-      pausedTasks.set(id, task);
-    } else if (to === 'resumed') {
-      resumedTasks.push(task);
-    } else if (to === 'pending') {
-      pendingTasks.push(task);
+  /** resumed → paused: внимание не освобождается, заполнение не нужно */
+  async pauseResumedTask({ id }: { id: string }) {
+    await dungeonDB;
+    const task = moveTask(id, 'resumed', 'paused');
+    if (!task) return;
+    outbox.push({ type: 'hook', hook: 'onPause', task });
+    flushEvents();
+  },
+
+  /** Переставить задачу внутри своей очереди — приоритет подгоняется под новых соседей (placeInQueue) */
+  async reorderTask({ id, toIndex }: { id: string; toIndex: number }) {
+    await dungeonDB;
+    const pool = findPool(id);
+    if (pool !== 'resumed' && pool !== 'pending') return;
+    const queue = pool === 'resumed' ? resumedTasks : pendingTasks;
+    const [task] = queue.splice(
+      queue.findIndex(t => t.id === id),
+      1
+    );
+    placeInQueue(queue, [task], toIndex);
+    markPoolsChanged(pool);
+    fillPool(); // новая первая задача может влезть
+    flushEvents();
+  },
+
+  /** Задание на паузу: active, resumed и pending задачи → paused */
+  async pauseJob({ jobId }: { jobId: string }) {
+    await dungeonDB;
+    for (const task of getJobTasks(jobId)) {
+      const from = findPool(task.id);
+      if (from !== 'active' && from !== 'resumed' && from !== 'pending') continue;
+      moveTask(task.id, from, 'paused');
+      // pending ещё не стартовала — onStart не было, onPause тоже не нужен
+      if (from !== 'pending') outbox.push({ type: 'hook', hook: 'onPause', task });
     }
+    fillPool();
+    flushEvents();
+  },
 
-    markTasksDirty(from);
-    markTasksDirty(to);
+  /** Возобновить задание: paused → resumed (в конец, в порядке пула) */
+  async resumeJob({ jobId }: { jobId: string }) {
+    await dungeonDB;
+    getJobTasks(jobId)
+      .filter(task => pausedTasks.has(task.id))
+      .forEach(task => moveTask(task.id, 'paused', 'resumed'));
+    fillPool();
+    flushEvents();
   },
 
-  async pushTasks({ tasks }: { tasks: TaskSaved[] }) {
+  /** Отменить все задачи задания */
+  async cancelJob({ jobId }: { jobId: string }) {
     await dungeonDB;
-    pendingTasks.push(...tasks);
-    markTasksDirty('pending');
-    return tasks.map(t => t.id);
+    getJobTasks(jobId).forEach(task => cancelTask(task.id));
+    fillPool();
+    flushEvents();
   },
 
-  async removeTask({ id, from }: { id: string; from: TaskPool }) {
+  /**
+   * Задать приоритет задаче в любом пуле.
+   * ГРАНИЧНЫЕ СЛУЧАИ: Задача в очереди переставляется в конец своего нового приоритета; active и paused — хранят его до очереди.
+   */
+  async setTaskPriority({ id, priority }: { id: string; priority: number }) {
     await dungeonDB;
-    if (from === 'active') {
-      activeTasks.delete(id);
-    } else if (from === 'paused') {
-      pausedTasks.delete(id);
-    } else if (from === 'resumed') {
-      const index = resumedTasks.findIndex(t => t.id === id);
-      if (index >= 0) resumedTasks.splice(index, 1);
-    } else if (from === 'pending') {
-      const index = pendingTasks.findIndex(t => t.id === id);
-      if (index >= 0) pendingTasks.splice(index, 1);
+    const pool = findPool(id);
+    if (!pool || pool === 'quarantine') return;
+    if (pool === 'active' || pool === 'paused') {
+      const task = (pool === 'active' ? activeTasks : pausedTasks).get(id);
+      if (task) task.priority = priority; // порядок активации (вытеснение) не меняется
+      markPoolsChanged(pool);
+      return flushEvents();
     }
-    markTasksDirty(from);
+    const task = takeTask(id, pool);
+    if (!task) return;
+    task.priority = priority;
+    putTask(task, pool);
+    markPoolsChanged(pool);
+    fillPool(); // задача могла встать первой
+    flushEvents();
   },
 
-  async updateActiveProgress(updates: Array<{ id: string; elapsedMs: number }>) {
+  /** Переставить задачи задания в каждой очереди на позицию toIndex, сохраняя их взаимный порядок (см. placeInQueue) */
+  async reorderJob({ jobId, toIndex }: { jobId: string; toIndex: number }) {
     await dungeonDB;
-    for (const { id, elapsedMs } of updates) {
-      const task = activeTasks.get(id);
-      if (task) task.elapsedMs = elapsedMs;
+    for (const [pool, queue] of [
+      ['resumed', resumedTasks],
+      ['pending', pendingTasks],
+    ] as const) {
+      const members = queue.filter(task => task.job?.id === jobId);
+      if (!members.length) continue;
+      const rest = queue.filter(task => task.job?.id !== jobId);
+      placeInQueue(rest, members, toIndex);
+      queue.splice(0, queue.length, ...rest);
+      markPoolsChanged(pool);
     }
-    markTasksDirty('active');
+    fillPool();
+    flushEvents();
+  },
+
+  // ============================================================
+  // === RESEARCH API ===
+  // ============================================================
+
+  /**
+   * Открыть исследование (задача исследования завершена).
+   * ГРАНИЧНЫЕ СЛУЧАИ: Неизвестный узел, уже открытый или с неоткрытыми предпосылками — игнорируется.
+   */
+  async unlockResearch({ nodeId }: { nodeId: string }) {
+    await dungeonDB;
+    const node = getResearchNode(nodeId);
+    if (!node || unlockedResearch.includes(nodeId)) return;
+    if (node.requires.some(id => !unlockedResearch.includes(id))) return;
+    unlockedResearch = [...unlockedResearch, nodeId];
+    researchEffects = getResearchEffects(unlockedResearch);
+    researchChanged = true;
+    markResearchDirty();
+    // Жадный проход мог быть запланирован с прежней задержкой — переносим на новую
+    if (greedyPassAt !== null)
+      greedyPassAt = Math.min(greedyPassAt, gameClock.gameTime + researchEffects.greedyPassDelay);
+    fillPool(); // вырос лимит внимания или включился жадный проход
+    flushEvents();
   },
 
   // ============================================================
@@ -445,6 +2155,24 @@ const api = {
     await dungeonDB;
     attentionLimit = newLimit;
     markAttentionDirty();
+    fillPool();
+    flushEvents();
+  },
+
+  // ============================================================
+  // === GAME CLOCK API ===
+  // ============================================================
+
+  async getGameClock() {
+    await dungeonDB;
+    return { ...gameClock };
+  },
+
+  async setGameClock({ isPaused, timeScale }: { isPaused: boolean; timeScale: TimeScale }) {
+    await dungeonDB;
+    gameClock.isPaused = isPaused;
+    gameClock.timeScale = timeScale;
+    markClockDirty();
   },
 };
 